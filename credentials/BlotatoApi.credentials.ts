@@ -28,6 +28,15 @@ export class BlotatoApi implements ICredentialType {
 			default: 'https://backend.blotato.com',
 			description: 'The server to connect to. Just leave it as a default',
 		},
+		{
+			displayName: 'Webhook Signing Secret',
+			name: 'webhookSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description:
+				'Secret used to verify the HMAC signature of webhooks sent by Blotato. Required for the Blotato Webhook Trigger, which rejects all events without it.',
+		},
 	];
 
 	authenticate: IAuthenticateGeneric = {
@@ -1,4 +1,5 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	ILoadOptionsFunctions,
 	INodeExecutionData,
@@ -10,47 +11,91 @@ import type {
 	FieldType,
 	JsonObject,
 } from 'n8n-workflow';
-import { NodeConnectionType, NodeOperationError, NodeApiError } from 'n8n-workflow';
-import { getAccounts, getSubaccounts, getTemplates } from './SearchFunctions';
-
-// Type definitions
-interface TemplateInput {
-	name: string;
-	label?: string;
-	type?: {
-		t: 'text' | 'image' | 'boolean' | 'enum' | 'array';
-		default?: any;
-		values?: string[];
-		itemType?: {
-			t: 'text' | 'number' | 'boolean' | 'object';
-		};
-	};
-}
-
-interface TemplateData {
-	id: string;
-	name?: string;
-	description?: string;
-	inputs?: TemplateInput[];
-}
+import { NodeConnectionType, NodeOperationError, NodeApiError, sleep } from 'n8n-workflow';
+import { getAccounts, getPinterestBoards, getSubaccounts, getTemplates } from './SearchFunctions';
+import {
+	API_ENDPOINTS,
+	BINARY_UPLOAD_MAX_SIZE_MB,
+	PLATFORM_OPTIONS,
+	POST_FAILED_STATUSES,
+	POST_PUBLISHED_STATUSES,
+	SOURCE_COMPLETED_STATUSES,
+	SOURCE_FAILED_STATUSES,
+	VIDEO_DONE_STATUSES,
+	VIDEO_FAILED_STATUSES,
+	VIDEO_IN_PROGRESS_STATUSES,
+} from './Constants';
+import {
+	DEFAULT_RATE_LIMITS_PER_MINUTE,
+	RETRY_DEFAULT_MAX_RETRIES,
+	RETRY_DEFAULT_MAX_WAIT_SECONDS,
+	createRateLimiter,
+	requestAllItems,
+	requestWithRetry,
+	resolveBinaryPropertyNames,
+	uploadBinaryMedia,
+} from './GenericFunctions';
+import type { MediaType } from './MediaFunctions';
+import {
+	PLATFORM_MEDIA_RULES,
+	checkMediaRule,
+	getMediaTypeFromHeadRequest,
+	getMediaTypeFromUrl,
+} from './MediaFunctions';
+import type { TemplateData, TemplateInput } from './TemplateFunctions';
+import { isTemplateInputRequired, validateTemplateInput } from './TemplateFunctions';
+import type { TextLimit } from './TextFunctions';
+import {
+	PLATFORM_TEXT_LIMITS,
+	PLATFORM_TITLE_LIMITS,
+	getTextLength,
+	splitIntoThread,
+	truncateText,
+} from './TextFunctions';
 
 
 // Constants
 const THREAD_SUPPORTED_PLATFORMS = ['twitter', 'threads', 'bluesky'];
 
-// Binary upload constants
-const BINARY_UPLOAD_MAX_SIZE_MB = 15;
-const BINARY_UPLOAD_MAX_SIZE_BYTES = BINARY_UPLOAD_MAX_SIZE_MB * 1024 * 1024;
-
-// API endpoint constants
-const API_ENDPOINTS = {
-	VIDEO_TEMPLATES: '/v2/videos/templates',
-	VIDEO_FROM_TEMPLATES: '/v2/videos/from-templates',
-	VIDEO_GET: '/v2/videos/creations',
-	VIDEO_DELETE: '/v2/videos',
-	POST_GET: '/v2/posts',
-	SOURCE: '/v2/source-resolutions-v3',
-};
+// Options collection fields that the targets of multi-account posting can set for themselves
+const TARGET_OPTION_OVERRIDES = [
+	'facebookLink',
+	'facebookMediaType',
+	'imageCoverIndex',
+	'instagramAltText',
+	'instagramAudioName',
+	'instagramCollaborators',
+	'instagramCoverImageUrl',
+	'instagramMediaType',
+	'linkedinPageId',
+	'pinterestAltText',
+	'pinterestLink',
+	'threadsReplyControl',
+	'videoCoverTimestamp',
+];
+
+// Polling defaults for "Wait for Completion" modes (in seconds)
+const POLL_DEFAULT_INTERVAL_SECONDS = 15;
+const POLL_DEFAULT_MAX_WAIT_SECONDS = 600;
+
+// Ways to handle post text that is longer than the platform allows
+const TEXT_LENGTH_HANDLING_OPTIONS = [
+	{
+		name: 'Error',
+		value: 'error',
+		description: 'Stop with an error naming the item, thread index and how many characters over the limit it is',
+	},
+	{
+		name: 'Truncate With Ellipsis',
+		value: 'truncate',
+		description: 'Shorten the text to the platform limit and end it with "…"',
+	},
+	{
+		name: 'Pass Through',
+		value: 'passThrough',
+		description: 'Send the text as is and let Blotato validate it (e.g. for X Premium long posts)',
+	},
+];
 
 // Supported source types for Source API
 const SOURCE_TYPES = [
@@ -145,6 +190,1003 @@ function cleanTranscript(text: string): string {
 	return cleaned;
 }
 
+// Helper function to add a helpful hint based on source resolution status
+function addSourceStatusHint(responseData: any): void {
+	if (!responseData || responseData._hint) {
+		return;
+	}
+
+	const status = responseData.status;
+
+	if (status === 'pending' || status === 'processing') {
+		responseData._hint = '⏳ Source is still being processed. Try again in a moment.';
+	} else if (SOURCE_FAILED_STATUSES.includes(status) && responseData.error) {
+		responseData._hint = `❌ Source extraction failed: ${responseData.error}`;
+	} else if (SOURCE_COMPLETED_STATUSES.includes(status)) {
+		responseData._hint = '✅ Source content extracted successfully!';
+	}
+}
+
+// Helper function to add a helpful hint based on post submission status
+function addPostStatusHint(responseData: any): void {
+	if (!responseData || responseData._hint) {
+		return;
+	}
+
+	const status = responseData.status;
+
+	if (status === 'in-progress') {
+		responseData._hint = '⏳ Your post is still being processed. Check again in a moment.';
+	} else if (status === 'failed' && responseData.errorMessage) {
+		responseData._hint = `❌ Post failed: ${responseData.errorMessage}`;
+	} else if (status === 'published' && responseData.publicUrl) {
+		responseData._hint = `✅ Post published successfully! View it at: ${responseData.publicUrl}`;
+	}
+}
+
+interface PollOptions {
+	url: string;
+	itemIndex: number;
+	intervalSeconds: number;
+	maxWaitSeconds: number;
+	isComplete: (response: any) => boolean;
+}
+
+// Helper function to poll a GET endpoint until the response is complete or the max wait time elapses
+async function pollUntilComplete(
+	this: IExecuteFunctions,
+	pollOptions: PollOptions,
+): Promise<{ response: any; timedOut: boolean }> {
+	const credentials = await this.getCredentials('blotatoApi');
+	const deadline = Date.now() + pollOptions.maxWaitSeconds * 1000;
+
+	while (true) {
+		let response;
+		try {
+			response = await requestWithRetry.call(
+				this,
+				{
+					method: 'GET',
+					url: `${credentials.server}${pollOptions.url}`,
+					json: true,
+				},
+				pollOptions.itemIndex,
+			);
+		} catch (error) {
+			throw new NodeApiError(this.getNode(), error as JsonObject, {
+				itemIndex: pollOptions.itemIndex,
+			});
+		}
+
+		const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+
+		if (pollOptions.isComplete(responseData)) {
+			return { response: responseData, timedOut: false };
+		}
+
+		if (Date.now() + pollOptions.intervalSeconds * 1000 > deadline) {
+			return { response: responseData, timedOut: true };
+		}
+
+		await sleep(pollOptions.intervalSeconds * 1000);
+	}
+}
+
+interface CompletionOptions {
+	// Endpoint and ID of the created resource, polled at `${path}/${id}`
+	path: string;
+	id: string | undefined;
+	itemIndex: number;
+	intervalSeconds: number;
+	maxWaitSeconds: number;
+	getStatus: (response: any) => string | undefined;
+	doneStatuses: string[];
+	// Failed statuses match when they are part of the status, e.g. "failed" in "render-failed"
+	failedStatuses: string[];
+	// Whether a failed status throws, or is returned as a result like a done status
+	throwOnFailure: boolean;
+	missingIdMessage: string;
+	// What is being waited for, e.g. "visual <id> to finish"
+	waitingFor: string;
+	timeoutDescription: string;
+	getFailureMessage: (response: any) => string;
+	failureDescription?: string;
+	formatResult: (response: any) => IDataObject;
+	// Fields identifying the resource in the error item when continueOnFail is enabled
+	errorFields: IDataObject;
+}
+
+// Helper function to wait until a created visual, source or post is done or failed and add
+// the result to the output, or an error item when continueOnFail is enabled
+async function waitForCompletion(
+	this: IExecuteFunctions,
+	returnData: INodeExecutionData[],
+	completionOptions: CompletionOptions,
+): Promise<void> {
+	const { itemIndex } = completionOptions;
+	const isFailed = (status: string | undefined) =>
+		!!status && completionOptions.failedStatuses.some((failedStatus) => status.includes(failedStatus));
+
+	try {
+		if (!completionOptions.id) {
+			throw new NodeOperationError(this.getNode(), completionOptions.missingIdMessage, { itemIndex });
+		}
+
+		const { response, timedOut } = await pollUntilComplete.call(this, {
+			url: `${completionOptions.path}/${completionOptions.id}`,
+			itemIndex,
+			intervalSeconds: completionOptions.intervalSeconds,
+			maxWaitSeconds: completionOptions.maxWaitSeconds,
+			isComplete: (data) => {
+				const status = completionOptions.getStatus(data);
+				return (!!status && completionOptions.doneStatuses.includes(status)) || isFailed(status);
+			},
+		});
+
+		const status = completionOptions.getStatus(response);
+
+		if (timedOut) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Timed out waiting for ${completionOptions.waitingFor} (last status: ${status || 'unknown'})`,
+				{
+					itemIndex,
+					description: completionOptions.timeoutDescription,
+				},
+			);
+		}
+
+		if (completionOptions.throwOnFailure && isFailed(status)) {
+			throw new NodeOperationError(this.getNode(), completionOptions.getFailureMessage(response), {
+				itemIndex,
+				description: completionOptions.failureDescription,
+			});
+		}
+
+		returnData.push({
+			json: completionOptions.formatResult(response),
+			pairedItem: { item: itemIndex },
+		});
+	} catch (error) {
+		if (this.continueOnFail()) {
+			returnData.push({
+				json: {
+					error: error.message,
+					...completionOptions.errorFields,
+				},
+				pairedItem: { item: itemIndex },
+				error,
+			});
+			return;
+		}
+		throw error;
+	}
+}
+
+// Helper function to ensure a scheduled time has a timezone - append 'Z' for UTC if none is specified
+function normalizeScheduledTime(scheduledTime: string): string {
+	const hasTimezone =
+		scheduledTime.includes('Z') ||
+		scheduledTime.includes('+') ||
+		scheduledTime.match(/[+-]\d{2}:\d{2}$/);
+
+	return hasTimezone ? scheduledTime : `${scheduledTime}Z`;
+}
+
+// Milliseconds per reschedule offset unit
+const RESCHEDULE_OFFSET_UNIT_MS: Record<string, number> = {
+	minutes: 60 * 1000,
+	hours: 60 * 60 * 1000,
+	days: 24 * 60 * 60 * 1000,
+};
+
+// Helper function to move the scheduled posts matching the filters by an offset or onto a new
+// start time with a fixed interval. Returns the planned (or applied) old and new times per post,
+// and whether the update succeeded.
+async function reschedulePosts(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	server: string,
+	rateLimiter: ReturnType<typeof createRateLimiter>,
+): Promise<IDataObject[]> {
+	const postFilters = this.getNodeParameter('postFilters', itemIndex, {}) as {
+		accountId?: string;
+		platform?: string;
+		createdAfter?: string;
+		createdBefore?: string;
+		scheduledAfter?: string;
+		scheduledBefore?: string;
+	};
+	const rescheduleMode = this.getNodeParameter('rescheduleMode', itemIndex, 'offset') as string;
+	const dryRun = this.getNodeParameter('rescheduleDryRun', itemIndex, false) as boolean;
+
+	const { scheduledAfter, scheduledBefore, ...listFilters } = postFilters;
+	const posts = await requestAllItems.call(
+		this,
+		{
+			method: 'GET',
+			url: `${server}${API_ENDPOINTS.POST_GET}`,
+			qs: {
+				...Object.fromEntries(Object.entries(listFilters).filter(([, value]) => value)),
+				status: 'scheduled',
+			},
+			json: true,
+		},
+		itemIndex,
+		{ returnAll: true, limit: 0 },
+	);
+
+	// The scheduled time range is applied here, ordered so a new start time keeps the sequence
+	const toTime = (value: string) => new Date(normalizeScheduledTime(value)).getTime();
+	const scheduledPosts = posts
+		.filter((post) => typeof post.scheduledTime === 'string' && post.scheduledTime)
+		.filter((post) => !scheduledAfter || toTime(post.scheduledTime as string) >= toTime(scheduledAfter))
+		.filter((post) => !scheduledBefore || toTime(post.scheduledTime as string) <= toTime(scheduledBefore))
+		.sort((a, b) => toTime(a.scheduledTime as string) - toTime(b.scheduledTime as string));
+
+	let getNewTime: (oldTime: number, index: number) => number;
+	if (rescheduleMode === 'startTime') {
+		const startTime = toTime(this.getNodeParameter('rescheduleStartTime', itemIndex) as string);
+		const intervalMs = (this.getNodeParameter('rescheduleInterval', itemIndex, 60) as number) * 60 * 1000;
+		if (isNaN(startTime)) {
+			throw new NodeOperationError(this.getNode(), 'Start Time is not a valid date', { itemIndex });
+		}
+		getNewTime = (_oldTime, index) => startTime + index * intervalMs;
+	} else {
+		const offset = this.getNodeParameter('rescheduleOffset', itemIndex, 1) as number;
+		const unit = this.getNodeParameter('rescheduleOffsetUnit', itemIndex, 'days') as string;
+		getNewTime = (oldTime) => oldTime + offset * RESCHEDULE_OFFSET_UNIT_MS[unit];
+	}
+
+	// A failed update does not stop the others, so every post gets a result saying whether it moved
+	const results: IDataObject[] = [];
+	for (const [index, post] of scheduledPosts.entries()) {
+		const postSubmissionId = (post.postSubmissionId ?? post.id) as string;
+		const oldScheduledTime = normalizeScheduledTime(post.scheduledTime as string);
+		const newScheduledTime = new Date(getNewTime(toTime(oldScheduledTime), index)).toISOString();
+
+		let error: string | undefined;
+		if (!dryRun) {
+			try {
+				await rateLimiter.acquire('post');
+				await requestWithRetry.call(
+					this,
+					{
+						method: 'PATCH',
+						url: `${server}${API_ENDPOINTS.POST_GET}/${postSubmissionId}`,
+						body: { scheduledTime: newScheduledTime },
+						json: true,
+					},
+					itemIndex,
+				);
+			} catch (requestError) {
+				error = requestError.message || 'An error occurred';
+			}
+		}
+
+		results.push({
+			postSubmissionId,
+			platform: post.platform ?? post.targetType,
+			accountId: post.accountId,
+			oldScheduledTime,
+			newScheduledTime,
+			dryRun,
+			success: !error,
+			...(error ? { error } : {}),
+		});
+	}
+
+	return results;
+}
+
+// Pinterest board URLs look like https://www.pinterest.com/<username>/<board-slug>/
+const PINTEREST_BOARD_URL_REGEX = '^https?://([a-z]+\\.)?pinterest\\.[a-z.]+/(?!pin/)([^/?#]+)/([^/?#]+)/?([?#].*)?$';
+
+// Helper function to resolve a Pinterest board given by URL to its ID, since posts need the ID.
+// The board slug from the URL is matched against the names of the account's boards.
+async function resolvePinterestBoardId(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	accountId: string,
+	board: string,
+): Promise<string> {
+	const match = board.trim().match(new RegExp(PINTEREST_BOARD_URL_REGEX, 'i'));
+	if (!match) {
+		return board;
+	}
+
+	const slugify = (value: string) => {
+		// Board names and URLs may contain a stray "%" (e.g. "50% off"), which is kept as is
+		let decoded = value;
+		try {
+			decoded = decodeURIComponent(value);
+		} catch (error) {
+			// Not valid URI encoding, use the raw value
+		}
+		return decoded
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '');
+	};
+	const boardSlug = slugify(match[3]);
+
+	const credentials = await this.getCredentials('blotatoApi');
+	let responseData;
+	try {
+		responseData = await requestWithRetry.call(
+			this,
+			{
+				method: 'GET',
+				url: `${credentials.server}${API_ENDPOINTS.ACCOUNTS}/${accountId}/subaccounts`,
+				qs: { platform: 'pinterest' },
+				json: true,
+			},
+			itemIndex,
+		);
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex });
+	}
+
+	const boards = (responseData?.items ?? []) as Array<{ id: string; name: string }>;
+	const matchingBoard = boards.find((item) => slugify(item.name ?? '') === boardSlug);
+	if (!matchingBoard) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`No Pinterest board of this account matches the URL "${board}"`,
+			{
+				itemIndex,
+				description: 'Select the board from the list or enter its ID instead',
+			},
+		);
+	}
+
+	return matchingBoard.id;
+}
+
+// Helper function to get the resolved Pinterest board as a buildPostBody override
+async function getPinterestBoardOverride(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	platform: string,
+	accountId: string,
+): Promise<IDataObject> {
+	if (platform !== 'pinterest') {
+		return {};
+	}
+
+	const board = extractResourceLocatorValue(
+		this.getNodeParameter('pinterestBoardId', itemIndex, '') as { value: string } | string,
+	);
+	return { pinterestBoardId: await resolvePinterestBoardId.call(this, itemIndex, accountId, board) };
+}
+
+// Helper function to build the /v2/posts request body for one platform and account.
+// Values in `overrides` take precedence over the node parameters of the same name,
+// so multi-account posting can reuse this logic for each target.
+function buildPostBody(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	platform: string,
+	accountId: string,
+	overrides: IDataObject = {},
+): any {
+	const getParameter = (name: string, fallback: any): any =>
+		overrides[name] !== undefined && overrides[name] !== ''
+			? overrides[name]
+			: this.getNodeParameter(name, itemIndex, fallback);
+
+	// common options
+	const body: any = {
+		post: {
+			target: {
+				targetType: platform,
+			},
+			content: {
+				platform: platform,
+				text: getParameter('postContentText', ''),
+				mediaUrls: (() => {
+					const mediaUrlsParam = getParameter('postContentMediaUrls', '');
+					// Handle both string (comma-separated) and array inputs
+					if (Array.isArray(mediaUrlsParam)) {
+						// If already an array (e.g., from GET VIDEO imageUrls), use it directly
+						return mediaUrlsParam.filter(url => url && typeof url === 'string');
+					} else if (typeof mediaUrlsParam === 'string') {
+						// If string, split by comma (existing behavior)
+						return mediaUrlsParam
+							.split(',')
+							.map((url) => url.trim())
+							.filter(Boolean);
+					}
+					// If empty or other type, return empty array
+					return [];
+				})(),
+			},
+			accountId: accountId,
+		},
+	};
+
+	// Validate media requirements for specific platforms
+	const mediaUrls = body.post.content.mediaUrls as string[];
+	const requiresMedia = ['instagram', 'tiktok', 'pinterest', 'youtube'].includes(platform);
+
+	if (requiresMedia && mediaUrls.length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`${platform.charAt(0).toUpperCase() + platform.slice(1)} requires you to post an image or video.`,
+			{ itemIndex },
+		);
+	}
+
+	// Handle options collection
+	const postOptions = this.getNodeParameter('options', itemIndex, {}) as {
+		scheduledTime?: string;
+		linkedinPageId?: string | { value?: string };
+		facebookMediaType?: string;
+		facebookLink?: string;
+		instagramMediaType?: string;
+		instagramAudioName?: string;
+		instagramCollaborators?: string;
+		instagramAltText?: string;
+		instagramCoverImageUrl?: string;
+		pinterestAltText?: string;
+		pinterestLink?: string;
+		threadsReplyControl?: string;
+		imageCoverIndex?: number;
+		videoCoverTimestamp?: number;
+		textLengthHandling?: string;
+	};
+
+	// Platform-specific fields of the options collection can be overridden per target as well
+	for (const name of TARGET_OPTION_OVERRIDES) {
+		if (overrides[name] !== undefined && overrides[name] !== '') {
+			(postOptions as IDataObject)[name] = overrides[name];
+		}
+	}
+
+
+	if (postOptions.scheduledTime) {
+		// Place scheduledTime at root level, not inside post object
+		body.scheduledTime = normalizeScheduledTime(postOptions.scheduledTime);
+	}
+
+	// Add useNextFreeSlot if specified (ignored if scheduledTime is provided)
+	const useNextFreeSlot = this.getNodeParameter('useNextFreeSlot', itemIndex, false) as boolean;
+	body.useNextFreeSlot = useNextFreeSlot;
+
+	// thread handling for platforms that support threads
+	if (THREAD_SUPPORTED_PLATFORMS.includes(platform)) {
+		const threadInputMethod = getParameter('threadInputMethod', 'manual') as string;
+
+		if (threadInputMethod === 'manual') {
+			// Manual input method - use fixedCollection
+			const additionalPostsData = this.getNodeParameter('postContentAdditionalPosts', itemIndex, {
+				posts: [],
+			}) as {
+				posts: Array<{ text: string; mediaUrls: string }>;
+			};
+
+			if (additionalPostsData.posts && additionalPostsData.posts.length > 0) {
+				body.post.content.additionalPosts = additionalPostsData.posts.map((post) => ({
+					text: post.text,
+					mediaUrls: post.mediaUrls
+						? post.mediaUrls
+								.split(',')
+								.map((url) => url.trim())
+								.filter(Boolean)
+						: [],
+				}));
+			}
+		} else if (threadInputMethod === 'array') {
+			// Array input method - use dynamic data
+			let threadPostsArray = getParameter('threadPostsArray', '[]');
+
+			// Handle both string (from Fixed mode) and array (from Expression mode) inputs
+			if (typeof threadPostsArray === 'string' && threadPostsArray.trim() !== '') {
+				try {
+					threadPostsArray = JSON.parse(threadPostsArray);
+				} catch (error) {
+					throw new NodeOperationError(
+						this.getNode(),
+						'Thread Posts must be a valid JSON array. Example: [{"text": "Post 1", "mediaUrls": []}, {"text": "Post 2", "mediaUrls": ["https://database.blotato.io/image.jpg"]}]',
+						{ itemIndex },
+					);
+				}
+			}
+
+			if (Array.isArray(threadPostsArray) && threadPostsArray.length > 0) {
+				body.post.content.additionalPosts = threadPostsArray.map((post: any) => ({
+					text: post.text || '',
+					mediaUrls: post.mediaUrls
+						? Array.isArray(post.mediaUrls)
+							? post.mediaUrls
+							: typeof post.mediaUrls === 'string'
+								? post.mediaUrls
+										.split(',')
+										.map((url: string) => url.trim())
+										.filter(Boolean)
+								: []
+						: [],
+				}));
+			}
+		} else if (threadInputMethod === 'autoSplit') {
+			// Auto-split method - break the main text into platform-sized posts
+			const numbering = getParameter('threadAutoSplitNumbering', true) as boolean;
+			const chunks = splitIntoThread(
+				String(body.post.content.text ?? ''),
+				PLATFORM_TEXT_LIMITS[platform],
+				numbering,
+			);
+
+			body.post.content.text = chunks[0];
+
+			if (chunks.length > 1) {
+				body.post.content.additionalPosts = chunks.slice(1).map((text) => ({
+					text,
+					mediaUrls: [] as string[],
+				}));
+
+				const mediaPlacement = getParameter('threadAutoSplitMediaPlacement', 'first') as string;
+				if (mediaPlacement === 'last') {
+					body.post.content.additionalPosts[chunks.length - 2].mediaUrls = body.post.content.mediaUrls;
+					body.post.content.mediaUrls = [];
+				}
+			}
+		}
+	}
+
+	// platform specific
+	switch (platform) {
+		case 'facebook':
+			body.post.target.pageId = extractResourceLocatorValue(getParameter('facebookPageId', ''));
+			// Add media type option from options if specified (only for videos)
+			if (postOptions.facebookMediaType) {
+				body.post.target.mediaType = postOptions.facebookMediaType;
+			}
+			// Add link preview if specified
+			if (postOptions.facebookLink) {
+				body.post.target.link = postOptions.facebookLink;
+			}
+			break;
+		case 'tiktok':
+			const isDraft = getParameter(
+				'postCreateTiktokOptionIsDraft',
+				false,
+			) as boolean;
+
+			// Get optional title for slideshows
+			const tiktokTitle = getParameter(
+				'postCreateTiktokOptionTitle',
+				'',
+			) as string;
+
+			body.post.target = {
+				...body.post.target,
+				privacyLevel: getParameter(
+					'postCreateTiktokOptionPrivacyLevel',
+					'PUBLIC_TO_EVERYONE',
+				) as string,
+				disabledComments: getParameter(
+					'postCreateTiktokOptionDisabledComments',
+					false,
+				) as boolean,
+				disabledDuet: getParameter(
+					'postCreateTiktokOptionDisabledDuet',
+					false,
+				) as boolean,
+				disabledStitch: getParameter(
+					'postCreateTiktokOptionDisabledStitch',
+					false,
+				) as boolean,
+				isBrandedContent: getParameter(
+					'postCreateTiktokOptionIsBrandedContent',
+					false,
+				) as boolean,
+				isYourBrand: getParameter(
+					'postCreateTiktokOptionIsYourBrand',
+					false,
+				) as boolean,
+				isAiGenerated: getParameter(
+					'postCreateTiktokOptionIsAiGenerated',
+					false,
+				) as boolean,
+				autoAddMusic: getParameter(
+					'postCreateTiktokOptionAutoAddMusic',
+					false,
+				) as boolean,
+				isDraft: isDraft,
+				// Optional title for slideshows (visible even in draft mode)
+				...(tiktokTitle ? { title: tiktokTitle } : {}),
+				// Cover settings should not be sent when posting as draft
+				imageCoverIndex: isDraft ? undefined : postOptions.imageCoverIndex,
+				videoCoverTimestamp: isDraft ? undefined : postOptions.videoCoverTimestamp,
+			};
+			break;
+		case 'bluesky':
+			// Bluesky requires no additional configuration
+			break;
+		case 'threads':
+			// Add reply control option from options if specified
+			if (postOptions.threadsReplyControl) {
+				body.post.target.replyControl = postOptions.threadsReplyControl;
+			}
+			break;
+		case 'linkedin':
+			// Add optional LinkedIn page ID from options
+			if (postOptions.linkedinPageId) {
+				const pageIdValue =
+					typeof postOptions.linkedinPageId === 'object'
+						? postOptions.linkedinPageId.value
+						: postOptions.linkedinPageId;
+				if (pageIdValue) {
+					body.post.target.pageId = pageIdValue;
+				}
+			}
+			break;
+		case 'instagram':
+			// Add media type option from options (reel or story)
+			if (postOptions.instagramMediaType) {
+				body.post.target.mediaType = postOptions.instagramMediaType;
+			}
+			// Add audio name for Reels
+			if (postOptions.instagramAudioName) {
+				body.post.target.audioName = postOptions.instagramAudioName;
+			}
+			// Add collaborators
+			if (postOptions.instagramCollaborators) {
+				// Split comma-separated usernames and trim whitespace
+				const collaborators = postOptions.instagramCollaborators
+					.split(',')
+					.map((username) => username.trim())
+					.filter(Boolean)
+					.slice(0, 3); // Ensure max 3 collaborators
+				if (collaborators.length > 0) {
+					body.post.target.collaborators = collaborators;
+				}
+			}
+			// Add alt text for accessibility
+			if (postOptions.instagramAltText) {
+				body.post.target.altText = postOptions.instagramAltText;
+			}
+			// Add cover image URL for Reels
+			if (postOptions.instagramCoverImageUrl) {
+				body.post.target.coverImageUrl = postOptions.instagramCoverImageUrl;
+			}
+			break;
+		case 'pinterest':
+			// Required board ID
+			body.post.target.boardId = extractResourceLocatorValue(getParameter('pinterestBoardId', ''));
+			// Optional fields
+			const pinTitle = getParameter(
+				'postCreatePinterestOptionTitle',
+				'',
+			) as string;
+			if (pinTitle) {
+				body.post.target.title = pinTitle;
+			}
+			// Get alt text and link from options
+			if (postOptions.pinterestAltText) {
+				body.post.target.altText = postOptions.pinterestAltText;
+			}
+			if (postOptions.pinterestLink) {
+				body.post.target.link = postOptions.pinterestLink;
+			}
+			break;
+		case 'youtube':
+			// YouTube requires several fields
+			body.post.target.title = getParameter(
+				'postCreateYoutubeOptionTitle',
+				'',
+			) as string;
+			body.post.target.privacyStatus = getParameter(
+				'postCreateYoutubeOptionPrivacyStatus',
+				'public',
+			) as string;
+			body.post.target.shouldNotifySubscribers = getParameter(
+				'postCreateYoutubeOptionShouldNotifySubscribers',
+				true,
+			) as boolean;
+			body.post.target.isMadeForKids = getParameter(
+				'postCreateYoutubeOptionMadeForKids',
+				false,
+			) as boolean;
+			body.post.target.containsSyntheticMedia = getParameter(
+				'postCreateYoutubeOptionContainsSyntheticMedia',
+				false,
+			) as boolean;
+			break;
+		case 'twitter':
+			// Twitter requires no additional configuration
+			// Only targetType is needed, which is already set above
+			// Thread support is handled via additionalPosts
+			break;
+		default:
+			throw new NodeOperationError(
+				this.getNode(),
+				`Platform "${platform}" is not supported for resource "post".`,
+				{ itemIndex },
+			);
+	}
+
+	// Check text lengths before sending, so over-length captions fail fast
+	enforceTextLimits.call(
+		this,
+		body,
+		platform,
+		itemIndex,
+		postOptions.textLengthHandling ?? 'passThrough',
+	);
+
+	return body;
+}
+
+// Helper function to check post text, thread posts and titles against the platform's
+// length limits, then throw, truncate with an ellipsis, or leave them as they are
+function enforceTextLimits(
+	this: IExecuteFunctions,
+	body: any,
+	platform: string,
+	itemIndex: number,
+	handling: string,
+): void {
+	if (handling === 'passThrough') {
+		return;
+	}
+
+	const platformName = platform.charAt(0).toUpperCase() + platform.slice(1);
+
+	const checkText = (text: unknown, textLimit: TextLimit | undefined, fieldName: string) => {
+		if (typeof text !== 'string' || !textLimit) {
+			return text;
+		}
+
+		const length = getTextLength(text, textLimit);
+		if (length <= textLimit.limit) {
+			return text;
+		}
+
+		if (handling === 'truncate') {
+			return truncateText(text, textLimit);
+		}
+
+		throw new NodeOperationError(
+			this.getNode(),
+			`${fieldName} is ${length - textLimit.limit} characters over the ${platformName} limit of ${textLimit.limit} (item ${itemIndex})`,
+			{
+				itemIndex,
+				description: 'Shorten the text, or set "Text Length Handling" to truncate or pass it through as is',
+			},
+		);
+	};
+
+	const textLimit = PLATFORM_TEXT_LIMITS[platform];
+	body.post.content.text = checkText(body.post.content.text, textLimit, 'Text (thread index 0)');
+
+	const additionalPosts = (body.post.content.additionalPosts ?? []) as Array<{ text: string }>;
+	additionalPosts.forEach((post, index) => {
+		post.text = checkText(post.text, textLimit, `Thread post text (thread index ${index + 1})`) as string;
+	});
+
+	if (body.post.target.title !== undefined) {
+		body.post.target.title = checkText(body.post.target.title, PLATFORM_TITLE_LIMITS[platform], 'Title');
+	}
+}
+
+// Helper function to check the media of the post and of each thread post against the
+// platform's media rules, detecting types from file extensions and optionally a HEAD request
+async function validatePostMedia(
+	this: IExecuteFunctions,
+	body: any,
+	platform: string,
+	itemIndex: number,
+): Promise<void> {
+	const rule = PLATFORM_MEDIA_RULES[platform];
+	if (!rule) {
+		return;
+	}
+
+	const postOptions = this.getNodeParameter('options', itemIndex, {}) as {
+		checkMediaContentType?: boolean;
+		validateMedia?: boolean;
+	};
+	if (postOptions.validateMedia === false) {
+		return;
+	}
+
+	const platformName = platform.charAt(0).toUpperCase() + platform.slice(1);
+
+	const posts = [
+		body.post.content,
+		...((body.post.content.additionalPosts ?? []) as Array<{ mediaUrls?: string[] }>),
+	];
+
+	for (const [threadIndex, post] of posts.entries()) {
+		const mediaUrls = (post.mediaUrls ?? []) as string[];
+		const media: Array<{ url: string; type: MediaType }> = [];
+
+		for (const url of mediaUrls) {
+			let type = getMediaTypeFromUrl(url);
+			if (type === 'unknown' && postOptions.checkMediaContentType) {
+				type = await getMediaTypeFromHeadRequest.call(this, url);
+			}
+			media.push({ url, type });
+		}
+
+		const errorMessage = checkMediaRule(media, rule, platformName);
+		if (errorMessage) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`${errorMessage} (thread index ${threadIndex}, item ${itemIndex})`,
+				{
+					itemIndex,
+					description: `See the media requirements per platform: ${BLOTATO_URLS.MEDIA_REQUIREMENTS}`,
+				},
+			);
+		}
+	}
+}
+
+interface RetryChanges {
+	scheduledTime?: string;
+	text?: string;
+	textLengthHandling?: string;
+}
+
+// Helper function to rebuild the /v2/posts request body of a failed post from its submission,
+// with the retry changes applied and checked like a new post
+async function buildRetryPostBody(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	postSubmissionId: string,
+	retryChanges: RetryChanges,
+): Promise<any> {
+	const credentials = await this.getCredentials('blotatoApi');
+
+	let responseData;
+	try {
+		responseData = await requestWithRetry.call(
+			this,
+			{
+				method: 'GET',
+				url: `${credentials.server}${API_ENDPOINTS.POST_GET}/${postSubmissionId}`,
+				json: true,
+			},
+			itemIndex,
+		);
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex });
+	}
+
+	if (!POST_FAILED_STATUSES.includes(responseData?.status)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Only failed posts can be retried, but post ${postSubmissionId} is ${responseData?.status || 'in an unknown status'}`,
+			{ itemIndex },
+		);
+	}
+
+	// The submission contains the post as it was sent to /v2/posts
+	const post = responseData?.post ?? responseData;
+	const platform = post?.target?.targetType as string | undefined;
+	if (!platform || !post.accountId || !post.content) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Post ${postSubmissionId} does not include the submitted post, so it cannot be resubmitted`,
+			{
+				itemIndex,
+				description: 'Create the post again with the Create operation instead',
+			},
+		);
+	}
+
+	const body: any = {
+		post: {
+			target: { ...post.target },
+			content: { ...post.content },
+			accountId: post.accountId,
+		},
+	};
+
+	if (retryChanges.text) {
+		body.post.content.text = retryChanges.text;
+	}
+	if (retryChanges.scheduledTime) {
+		body.scheduledTime = normalizeScheduledTime(retryChanges.scheduledTime);
+	}
+
+	// Same checks as Create, so a replacement text that is too long fails before it is sent
+	enforceTextLimits.call(this, body, platform, itemIndex, retryChanges.textLengthHandling ?? 'error');
+	await validatePostMedia.call(this, body, platform, itemIndex);
+
+	return body;
+}
+
+// Template fields returned by the Template resource, including the full input definitions
+const TEMPLATE_FIELDS = 'id,name,description,type,inputs';
+
+// Helper function to fetch a template with its input definitions
+async function fetchTemplate(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	templateId: string,
+): Promise<TemplateData> {
+	const credentials = await this.getCredentials('blotatoApi');
+
+	let responseData;
+	try {
+		responseData = await requestWithRetry.call(
+			this,
+			{
+				method: 'GET',
+				url: `${credentials.server}${API_ENDPOINTS.VIDEO_TEMPLATES}`,
+				qs: { id: templateId, fields: TEMPLATE_FIELDS },
+				json: true,
+			},
+			itemIndex,
+		);
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex });
+	}
+
+	// The API returns an array of templates when filtered by ID
+	const templates = responseData?.items ?? responseData;
+	const templateData = (Array.isArray(templates) ? templates[0] : templates) as TemplateData | undefined;
+
+	if (!templateData) {
+		throw new NodeOperationError(this.getNode(), `Template not found: ${templateId}`, {
+			itemIndex,
+			description: `Browse the available templates at ${BLOTATO_URLS.VIDEO_TEMPLATES}`,
+		});
+	}
+
+	return templateData;
+}
+
+// Helper function to validate the template inputs against the template's input definitions and
+// convert them to the types the API expects. Inputs the template does not define are passed
+// through, with JSON strings parsed where possible.
+function prepareTemplateInputs(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	templateData: TemplateData,
+	inputs: Record<string, any>,
+): Record<string, any> {
+	const preparedInputs: Record<string, any> = { ...inputs };
+	const definitions: TemplateInput[] = Array.isArray(templateData.inputs) ? templateData.inputs : [];
+
+	for (const definition of definitions) {
+		const { value, error } = validateTemplateInput(definition, inputs[definition.name]);
+		if (error) {
+			throw new NodeOperationError(this.getNode(), error, {
+				itemIndex,
+				description: `Check the "${definition.label || definition.name}" field in Template Inputs`,
+			});
+		}
+		if (value !== undefined) {
+			preparedInputs[definition.name] = value;
+		}
+	}
+
+	const definedNames = definitions.map((definition) => definition.name);
+	for (const [key, value] of Object.entries(inputs)) {
+		if (definedNames.includes(key) || typeof value !== 'string') {
+			continue;
+		}
+		const trimmedValue = value.trim();
+		if (trimmedValue.startsWith('[') || trimmedValue.startsWith('{')) {
+			try {
+				preparedInputs[key] = JSON.parse(trimmedValue);
+			} catch (error) {
+				// Log warning but keep as string if parsing fails
+				this.logger.warn(
+					`Failed to parse JSON for field '${key}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+				);
+			}
+		}
+	}
+
+	return preparedInputs;
+}
+
 // Blotato URLs for hint messages
 const BLOTATO_URLS = {
 	VIDEO_TEMPLATES: 'https://my.blotato.com/videos/new',
@@ -155,7 +1197,7 @@ const BLOTATO_URLS = {
 };
 
 // Helper functions
-function extractTemplateId(param: { value: string } | string): string {
+function extractResourceLocatorValue(param: { value: string } | string): string {
 	return typeof param === 'object' ? param.value : param;
 }
 
@@ -222,6 +1264,10 @@ export class Blotato implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Account',
+						value: 'account',
+					},
 					{
 						name: 'Media',
 						value: 'media',
@@ -234,6 +1280,10 @@ export class Blotato implements INodeType {
 						name: 'Source',
 						value: 'source',
 					},
+					{
+						name: 'Template',
+						value: 'template',
+					},
 					{
 						name: 'Video',
 						value: 'video',
@@ -246,7 +1296,7 @@ export class Blotato implements INodeType {
 			//         Operations
 			// ----------------------------------
 
-			// ------------- source --------------
+			// ------------- account --------------
 
 			{
 				displayName: 'Operation',
@@ -255,31 +1305,108 @@ export class Blotato implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['source'],
+						resource: ['account'],
 					},
 				},
 				options: [
-					{
-						name: 'Create',
-						value: 'create',
-						description: 'Submit a source for content extraction (YouTube, TikTok, article, PDF, etc.)',
-						action: 'Create source',
-					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get the extracted content by source ID',
-						action: 'Get source',
+						description: 'Get a connected account by ID',
+						action: 'Get account',
+					},
+					{
+						name: 'Get Many',
+						value: 'getMany',
+						description: 'List connected accounts, optionally filtered by platform',
+						action: 'Get many accounts',
+					},
+					{
+						name: 'Get Subaccounts',
+						value: 'getSubaccounts',
+						description: 'List the Facebook pages, Linkedin company pages or Pinterest boards of an account',
+						action: 'Get subaccounts of an account',
 					},
 				],
-				default: 'create',
+				default: 'getMany',
 			},
 
-			// Source Type selection
+			// Account ID for Get and Get Subaccounts operations
 			{
-				displayName: 'Source Type',
-				name: 'sourceType',
-				type: 'options',
+				displayName: 'Account ID',
+				name: 'accountLookupId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['account'],
+						operation: ['get', 'getSubaccounts'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. 12345',
+				description: 'The ID of the connected account',
+			},
+
+			// Platform filter for Get Many operation
+			{
+				displayName: 'Filters',
+				name: 'accountFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['account'],
+						operation: ['getMany'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Platform',
+						name: 'platform',
+						type: 'options',
+						options: PLATFORM_OPTIONS,
+						default: 'twitter',
+						description: 'Only return accounts of this platform',
+					},
+				],
+			},
+
+			// ------------- source --------------
+
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['source'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Submit a source for content extraction (YouTube, TikTok, article, PDF, etc.)',
+						action: 'Create source',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get the extracted content by source ID',
+						action: 'Get source',
+					},
+				],
+				default: 'create',
+			},
+
+			// Source Type selection
+			{
+				displayName: 'Source Type',
+				name: 'sourceType',
+				type: 'options',
 				options: SOURCE_TYPES,
 				default: 'url',
 				required: true,
@@ -372,6 +1499,95 @@ export class Blotato implements INodeType {
 				description: 'AI instructions to transform the extracted content (e.g., summarize, translate, reformat)',
 			},
 
+			// Wait for the extracted content instead of returning only the source ID
+			{
+				displayName: 'Wait for Result',
+				name: 'waitForResult',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['source'],
+						operation: ['create'],
+					},
+				},
+				description: 'Whether to wait until the source has been processed and return the extracted content in one step',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 2,
+				},
+				displayOptions: {
+					show: {
+						resource: ['source'],
+						operation: ['create'],
+						waitForResult: [true],
+					},
+				},
+				description: 'How often to check the status of the source',
+			},
+			{
+				displayName: 'Max Wait Time (Seconds)',
+				name: 'maxWaitTime',
+				type: 'number',
+				default: 300,
+				typeOptions: {
+					minValue: 10,
+				},
+				displayOptions: {
+					show: {
+						resource: ['source'],
+						operation: ['create'],
+						waitForResult: [true],
+					},
+				},
+				description: 'Maximum time to wait for the source before failing with a timeout error',
+			},
+			{
+				displayName: 'On Extraction Failure',
+				name: 'onSourceFailure',
+				type: 'options',
+				options: [
+					{
+						name: 'Stop With Error',
+						value: 'error',
+						description: 'Throw an error (or return an error item when "Continue On Fail" is enabled)',
+					},
+					{
+						name: 'Return Failed Result',
+						value: 'output',
+						description: 'Return the failed source as a regular item with its error message',
+					},
+				],
+				default: 'error',
+				displayOptions: {
+					show: {
+						resource: ['source'],
+						operation: ['create'],
+						waitForResult: [true],
+					},
+				},
+				description: 'What to do when the source extraction fails',
+			},
+			{
+				displayName: 'Clean Transcript',
+				name: 'cleanTranscript',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						resource: ['source'],
+						operation: ['create'],
+						waitForResult: [true],
+					},
+				},
+				description: 'Whether to remove timestamps and clean up the transcript for YouTube/TikTok/Audio sources. Makes the text easier to use for content repurposing.',
+			},
+
 			// Source ID for Get operation
 			{
 				displayName: 'Source ID',
@@ -439,6 +1655,47 @@ export class Blotato implements INodeType {
 				default: 'create',
 			},
 
+			// Template type filter for the template list
+			{
+				displayName: 'Template Type',
+				name: 'templateType',
+				type: 'options',
+				options: [
+					{
+						name: 'All',
+						value: '',
+					},
+					{
+						name: 'Carousel',
+						value: 'carousel',
+					},
+					{
+						name: 'Image',
+						value: 'image',
+					},
+					{
+						name: 'Infographic',
+						value: 'infographic',
+					},
+					{
+						name: 'Slideshow',
+						value: 'slideshow',
+					},
+					{
+						name: 'Video',
+						value: 'video',
+					},
+				],
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['video'],
+						operation: ['create'],
+					},
+				},
+				description: 'Only list templates of this type in the Template dropdown',
+			},
+
 			// Template selection
 			{
 				displayName: 'Template',
@@ -473,6 +1730,9 @@ export class Blotato implements INodeType {
 				],
 				default: { mode: 'list', value: '' },
 				required: true,
+				typeOptions: {
+					loadOptionsDependsOn: ['templateType'],
+				},
 				displayOptions: {
 					show: {
 						resource: ['video'],
@@ -510,6 +1770,10 @@ export class Blotato implements INodeType {
 				default: {
 					mappingMode: 'defineBelow',
 					value: {},
+					// Expressions often give JSON array strings or numeric strings, which are converted
+					// to the field type instead of failing the resource mapper's type check
+					attemptToConvertTypes: true,
+					convertFieldsToString: false,
 				},
 				required: true,
 				displayOptions: {
@@ -529,101 +1793,80 @@ export class Blotato implements INodeType {
 						},
 						addAllFields: true,
 						multiKeyMatch: false,
+						showTypeConversionOptions: true,
 					},
 				},
 				description: 'Map the input fields required by the selected template',
 			},
 
-			// Video ID for Get and Delete operations
+			// Wait for the visual to finish rendering before continuing
 			{
-				displayName: 'Video ID',
-				name: 'videoId',
-				type: 'string',
-				required: true,
+				displayName: 'Wait for Completion',
+				name: 'waitForCompletion',
+				type: 'boolean',
+				default: false,
 				displayOptions: {
 					show: {
 						resource: ['video'],
-						operation: ['get', 'delete'],
+						operation: ['create'],
 					},
 				},
-				default: '',
-				placeholder: 'e.g. 123e4567-e89b-12d3-a456-426614174000',
-				description: 'The ID of the video',
+				description: 'Whether to wait until the visual has finished rendering (or failed) before continuing. Replaces a manual Wait + Get Visual loop.',
 			},
-
-			// ------------- media --------------
-
 			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				displayOptions: {
-					show: {
-						resource: ['media'],
-					},
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				default: POLL_DEFAULT_INTERVAL_SECONDS,
+				typeOptions: {
+					minValue: 5,
 				},
-				options: [
-					{
-						name: 'Upload',
-						value: 'upload',
-						description: 'Upload image or video',
-						action: 'Upload media',
-					},
-				],
-				default: 'upload',
-			},
-
-			// upload media
-			// Use Binary Data toggle
-			{
-				displayName: 'Use Binary Data',
-				name: 'useBinaryData',
-				type: 'boolean',
-				default: false,
 				displayOptions: {
 					show: {
-						resource: ['media'],
-						operation: ['upload'],
+						resource: ['video'],
+						operation: ['create'],
+						waitForCompletion: [true],
 					},
 				},
-				description: `Whether to use binary data instead of URL. Note: Binary uploads are limited to ${BINARY_UPLOAD_MAX_SIZE_MB}MB. For larger files, use URL upload with services like Google Drive (up to 60MB), Dropbox, Frame.io, or S3/GCS buckets.`,
+				description: 'How often to check the status of the visual',
 			},
-
-			// Media URL field
 			{
-				displayName: 'Media URL',
-				name: 'mediaUrl',
-				type: 'string',
-				default: '',
-				validateType: 'url',
+				displayName: 'Max Wait Time (Seconds)',
+				name: 'maxWaitTime',
+				type: 'number',
+				default: POLL_DEFAULT_MAX_WAIT_SECONDS,
+				typeOptions: {
+					minValue: 10,
+				},
 				displayOptions: {
 					show: {
-						resource: ['media'],
-						operation: ['upload'],
-						useBinaryData: [false],
+						resource: ['video'],
+						operation: ['create'],
+						waitForCompletion: [true],
 					},
 				},
-				description: 'Public URL of image or video',
+				description: 'Maximum time to wait for the visual before failing with a timeout error',
 			},
 
-			// Binary property field
+			// Video ID for Get and Delete operations
 			{
-				displayName: 'Input Binary Field',
-				name: 'binaryPropertyName',
+				displayName: 'Video ID',
+				name: 'videoId',
 				type: 'string',
-				default: 'data',
+				required: true,
 				displayOptions: {
 					show: {
-						resource: ['media'],
-						operation: ['upload'],
-						useBinaryData: [true],
+						resource: ['video'],
+						operation: ['get', 'delete'],
 					},
 				},
-				description: 'Name of the binary property which contains the media to upload',
+				default: '',
+				placeholder: 'e.g. 123e4567-e89b-12d3-a456-426614174000',
+				description: 'The ID of the video',
 			},
 
-			// ------------- post --------------
+			// ------------- template --------------
+
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -631,41 +1874,576 @@ export class Blotato implements INodeType {
 				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['post'],
+						resource: ['template'],
 					},
 				},
 				options: [
-					{
-						name: 'Create',
-						value: 'create',
-						description: 'Create post',
-						action: 'Create post',
-					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get post status by submission ID',
-						action: 'Get post',
+						description: 'Get a template and the definition of its inputs',
+						action: 'Get template',
+					},
+					{
+						name: 'Get Many',
+						value: 'getMany',
+						description: 'List templates with the definition of their inputs',
+						action: 'Get many templates',
 					},
 				],
-				default: 'create',
+				default: 'getMany',
 			},
 
-			// Post Submission ID for Get operation
+			// Template for Get operation
 			{
-				displayName: 'Post Submission ID',
-				name: 'postSubmissionId',
-				type: 'string',
-				required: true,
-				displayOptions: {
-					show: {
-						resource: ['post'],
-						operation: ['get'],
+				displayName: 'Template',
+				name: 'templateLookupId',
+				type: 'resourceLocator',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a template',
+						typeOptions: {
+							searchListMethod: 'getTemplates',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. template_123',
+						validation: [
+							{
+								type: 'regex',
+								properties: {
+									regex: '^[a-zA-Z0-9_-]+$',
+									errorMessage: 'Not a valid template ID',
+								},
+							},
+						],
+					},
+				],
+				default: { mode: 'list', value: '' },
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['template'],
+						operation: ['get'],
+					},
+				},
+				description: 'The template to get',
+			},
+
+			// ------------- media --------------
+
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['media'],
+					},
+				},
+				options: [
+					{
+						name: 'Upload',
+						value: 'upload',
+						description: 'Upload image or video',
+						action: 'Upload media',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get an uploaded media file by ID',
+						action: 'Get media',
+					},
+					{
+						name: 'Get Many',
+						value: 'getMany',
+						description: 'List uploaded media files',
+						action: 'Get many media',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete an uploaded media file by ID',
+						action: 'Delete media',
+					},
+				],
+				default: 'upload',
+			},
+
+			// Media ID for Get and Delete operations
+			{
+				displayName: 'Media ID',
+				name: 'mediaId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['media'],
+						operation: ['get', 'delete'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. 123e4567-e89b-12d3-a456-426614174000',
+				description: 'The ID of the media file',
+			},
+
+			// Pagination for Get Many operations (account, media, post and template)
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['account', 'media', 'post', 'template'],
+						operation: ['getMany'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['account', 'media', 'post', 'template'],
+						operation: ['getMany'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+
+			// upload media
+			// Use Binary Data toggle
+			{
+				displayName: 'Use Binary Data',
+				name: 'useBinaryData',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['media'],
+						operation: ['upload'],
+					},
+				},
+				description: `Whether to use binary data instead of URL. Binary files are streamed to Blotato's storage and are limited to ${BINARY_UPLOAD_MAX_SIZE_MB}MB.`,
+			},
+
+			// Media URL field
+			{
+				displayName: 'Media URL',
+				name: 'mediaUrl',
+				type: 'string',
+				default: '',
+				validateType: 'url',
+				displayOptions: {
+					show: {
+						resource: ['media'],
+						operation: ['upload'],
+						useBinaryData: [false],
+					},
+				},
+				description: 'Public URL of image or video',
+			},
+
+			// Binary property field
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				displayOptions: {
+					show: {
+						resource: ['media'],
+						operation: ['upload'],
+						useBinaryData: [true],
+					},
+				},
+				description: 'Name of the binary property which contains the media to upload. Use a comma-separated list (e.g. "data0, data1") or a wildcard (e.g. "data*") to upload several files in order.',
+			},
+			{
+				displayName: 'Aggregate All Items',
+				name: 'aggregateItems',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['media'],
+						operation: ['upload'],
+						useBinaryData: [true],
+					},
+				},
+				description: 'Whether to upload the files of all input items and return a single item with one ordered "mediaUrls" array, e.g. for a carousel post',
+			},
+
+			// ------------- post --------------
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create post',
+						action: 'Create post',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Cancel a scheduled or queued post',
+						action: 'Delete post',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get post status by submission ID',
+						action: 'Get post',
+					},
+					{
+						name: 'Get Many',
+						value: 'getMany',
+						description: 'List post submissions, optionally filtered by status, platform, account or date',
+						action: 'Get many posts',
+					},
+					{
+						name: 'Reschedule',
+						value: 'reschedule',
+						description: 'Move scheduled posts by an offset or onto a new start time',
+						action: 'Reschedule posts',
+					},
+					{
+						name: 'Retry',
+						value: 'retry',
+						description: 'Resubmit a failed post, optionally with a new scheduled time or text',
+						action: 'Retry post',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update the content, media, schedule or platform options of a scheduled or queued post',
+						action: 'Update post',
+					},
+				],
+				default: 'create',
+			},
+
+			// Filters for Get Many and Reschedule operations
+			{
+				displayName: 'Filters',
+				name: 'postFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['getMany', 'reschedule'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Account ID',
+						name: 'accountId',
+						type: 'string',
+						default: '',
+						description: 'Only return posts published with this account',
+					},
+					{
+						displayName: 'Created After',
+						name: 'createdAfter',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return posts submitted after this date and time',
+					},
+					{
+						displayName: 'Created Before',
+						name: 'createdBefore',
+						type: 'dateTime',
+						default: '',
+						description: 'Only return posts submitted before this date and time',
+					},
+					{
+						displayName: 'Platform',
+						name: 'platform',
+						type: 'options',
+						options: PLATFORM_OPTIONS,
+						default: 'twitter',
+						description: 'Only return posts for this platform',
+					},
+					{
+						displayName: 'Scheduled After',
+						name: 'scheduledAfter',
+						type: 'dateTime',
+						default: '',
+						displayOptions: {
+							show: {
+								'/operation': ['reschedule'],
+							},
+						},
+						description: 'Only reschedule posts currently scheduled after this date and time',
+					},
+					{
+						displayName: 'Scheduled Before',
+						name: 'scheduledBefore',
+						type: 'dateTime',
+						default: '',
+						displayOptions: {
+							show: {
+								'/operation': ['reschedule'],
+							},
+						},
+						description: 'Only reschedule posts currently scheduled before this date and time',
+					},
+					{
+						displayName: 'Status',
+						name: 'status',
+						type: 'options',
+						displayOptions: {
+							show: {
+								'/operation': ['getMany'],
+							},
+						},
+						options: [
+							{
+								name: 'Failed',
+								value: 'failed',
+							},
+							{
+								name: 'In Progress',
+								value: 'in-progress',
+							},
+							{
+								name: 'Published',
+								value: 'published',
+							},
+							{
+								name: 'Scheduled',
+								value: 'scheduled',
+							},
+						],
+						default: 'published',
+						description: 'Only return posts with this status',
+					},
+				],
+			},
+
+			// Reschedule operation
+			{
+				displayName: 'Reschedule Mode',
+				name: 'rescheduleMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Shift by Offset',
+						value: 'offset',
+						description: 'Move every selected post by the same amount of time',
+					},
+					{
+						name: 'New Start Time',
+						value: 'startTime',
+						description: 'Place the selected posts, in their current order, from a new start time at a fixed interval',
+					},
+				],
+				default: 'offset',
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['reschedule'],
+					},
+				},
+			},
+			{
+				displayName: 'Offset',
+				name: 'rescheduleOffset',
+				type: 'number',
+				default: 1,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['reschedule'],
+						rescheduleMode: ['offset'],
+					},
+				},
+				description: 'Amount of time to move the posts by. Use a negative number to move them earlier.',
+			},
+			{
+				displayName: 'Offset Unit',
+				name: 'rescheduleOffsetUnit',
+				type: 'options',
+				options: [
+					{
+						name: 'Minutes',
+						value: 'minutes',
+					},
+					{
+						name: 'Hours',
+						value: 'hours',
+					},
+					{
+						name: 'Days',
+						value: 'days',
+					},
+				],
+				default: 'days',
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['reschedule'],
+						rescheduleMode: ['offset'],
+					},
+				},
+			},
+			{
+				displayName: 'Start Time',
+				name: 'rescheduleStartTime',
+				type: 'dateTime',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['reschedule'],
+						rescheduleMode: ['startTime'],
+					},
+				},
+				description: 'New scheduled time of the first post. For example: "2024-12-31T09:00:00Z" for UTC time.',
+			},
+			{
+				displayName: 'Interval (Minutes)',
+				name: 'rescheduleInterval',
+				type: 'number',
+				default: 60,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['reschedule'],
+						rescheduleMode: ['startTime'],
+					},
+				},
+				description: 'Time between two consecutive posts',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'rescheduleDryRun',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['reschedule'],
+					},
+				},
+				description: 'Whether to only return the planned old and new scheduled times without changing any post',
+			},
+
+			// Post Submission ID for Get, Update, Delete and Retry operations
+			{
+				displayName: 'Post Submission ID',
+				name: 'postSubmissionId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['get', 'update', 'delete', 'retry'],
 					},
 				},
 				default: '',
 				placeholder: 'e.g. 123e4567-e89b-12d3-a456-426614174000',
-				description: 'The ID of the post submission to check',
+				description: 'The ID of the post submission',
+			},
+
+			// Changes applied when retrying a failed post
+			{
+				displayName: 'Retry Changes',
+				name: 'postRetryChanges',
+				type: 'collection',
+				placeholder: 'Add Change',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['retry'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Scheduled Time',
+						name: 'scheduledTime',
+						type: 'dateTime',
+						default: '',
+						description: 'Schedule the retried post for this time instead of publishing it right away',
+					},
+					{
+						displayName: 'Text',
+						name: 'text',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						description: 'Replace the text of the failed post',
+					},
+					{
+						displayName: 'Text Length Handling',
+						name: 'textLengthHandling',
+						type: 'options',
+						default: 'error',
+						options: TEXT_LENGTH_HANDLING_OPTIONS,
+						description: 'What to do when the text of the retried post is longer than the platform allows',
+					},
+				],
+			},
+
+			// single account or fan-out to several accounts
+			{
+				displayName: 'Post To',
+				name: 'postTargetMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Single Account',
+						value: 'single',
+						description: 'Post to one account on one platform',
+					},
+					{
+						name: 'Multiple Accounts',
+						value: 'multiple',
+						description: 'Post the same content to several accounts, across platforms, with per-target overrides',
+					},
+				],
+				default: 'single',
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create'],
+					},
+				},
+				description: 'Whether to post to a single account or fan out to several accounts',
 			},
 
 			// platform
@@ -673,24 +2451,17 @@ export class Blotato implements INodeType {
 				displayName: 'Platform',
 				name: 'platform',
 				type: 'options',
-				options: [
-					{ name: 'Bluesky', value: 'bluesky' },
-					{ name: 'Facebook', value: 'facebook' },
-					{ name: 'Instagram', value: 'instagram' },
-					{ name: 'Linkedin', value: 'linkedin' },
-					{ name: 'Pinterest', value: 'pinterest' },
-					{ name: 'Threads', value: 'threads' },
-					{ name: 'Tiktok', value: 'tiktok' },
-					{ name: 'Twitter', value: 'twitter' },
-					{ name: 'Youtube', value: 'youtube' },
-				],
+				options: PLATFORM_OPTIONS,
 				default: 'instagram',
 				description: 'Social media platform',
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
+					},
+					hide: {
+						postTargetMode: ['multiple'],
 					},
 				},
 			},
@@ -708,7 +2479,7 @@ export class Blotato implements INodeType {
 						placeholder: 'Select an account for the chosen platform',
 						typeOptions: {
 							searchListMethod: 'getAccounts',
-							searchable: false,
+							searchable: true,
 						},
 					},
 					{
@@ -718,24 +2489,644 @@ export class Blotato implements INodeType {
 						placeholder: 'e.g. 1234',
 						validation: [
 							{
-								type: 'regex',
-								properties: {
-									regex: '^[1-9]+[0-9]*$',
-									errorMessage: 'Not a valid account ID',
+								type: 'regex',
+								properties: {
+									regex: '^[1-9]+[0-9]*$',
+									errorMessage: 'Not a valid account ID',
+								},
+							},
+						],
+					},
+				],
+				default: { mode: 'list', value: '' },
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create', 'update'],
+					},
+					hide: {
+						postTargetMode: ['multiple'],
+					},
+				},
+				description: 'Your Blotato social media account ID',
+			},
+
+			// post targets (multiple accounts mode)
+			{
+				displayName: 'Targets',
+				name: 'postTargets',
+				placeholder: 'Add Target',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create'],
+						postTargetMode: ['multiple'],
+					},
+				},
+				description: 'Accounts to post to. One request is sent per target, and one item is returned per target.',
+				options: [
+					{
+						name: 'target',
+						displayName: 'Target',
+						values: [
+							{
+								displayName: 'Account ID',
+								name: 'accountId',
+								type: 'string',
+								default: '',
+								required: true,
+								placeholder: 'e.g. 1234',
+								description: 'Your Blotato social media account ID for this platform',
+							},
+							{
+								displayName: 'Add Numbering',
+								name: 'threadAutoSplitNumbering',
+								type: 'boolean',
+								default: true,
+								displayOptions: {
+									show: {
+										platform: THREAD_SUPPORTED_PLATFORMS,
+										threadInputMethod: ['autoSplit'],
+									},
+								},
+								description: 'Whether to append "1/n" numbering to each post of the thread',
+							},
+							{
+								displayName: 'Alt Text',
+								name: 'instagramAltText',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['instagram'],
+									},
+								},
+								description: 'Alternative text for accessibility. Only supported on single images or carousel images (max 2200 characters).',
+							},
+							{
+								displayName: 'Audio Name',
+								name: 'instagramAudioName',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['instagram'],
+									},
+								},
+								description: 'For Reels only. Name of the audio of your Reels media.',
+							},
+							{
+								displayName: 'Auto Add Music',
+								name: 'postCreateTiktokOptionAutoAddMusic',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether to automatically add music. Only works for Tiktok slideshows.',
+							},
+							{
+								displayName: 'Collaborators',
+								name: 'instagramCollaborators',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['instagram'],
+									},
+								},
+								description: 'Comma-separated list of Instagram usernames to add as collaborators (min: 1, max: 3)',
+							},
+							{
+								displayName: 'Contains Synthetic Media',
+								name: 'postCreateYoutubeOptionContainsSyntheticMedia',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['youtube'],
+									},
+								},
+								description: 'Whether the media contains synthetic content, such as AI images, AI videos, or AI avatars',
+							},
+							{
+								displayName: 'Cover Image URL',
+								name: 'instagramCoverImageUrl',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['instagram'],
+									},
+								},
+								description: 'URL of cover image for Instagram Reels. Only applies to reels.',
+							},
+							{
+								displayName: 'Disable Comments',
+								name: 'postCreateTiktokOptionDisabledComments',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether to disable comments on this post',
+							},
+							{
+								displayName: 'Disable Duet',
+								name: 'postCreateTiktokOptionDisabledDuet',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether to disable duet for this post',
+							},
+							{
+								displayName: 'Disable Stitch',
+								name: 'postCreateTiktokOptionDisabledStitch',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether to disable stitch for this post',
+							},
+							{
+								displayName: 'Facebook Page ID',
+								name: 'facebookPageId',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. 123456789012345',
+								displayOptions: {
+									show: {
+										platform: ['facebook'],
+									},
+								},
+								description: 'The Facebook Page ID to post to',
+							},
+							{
+								displayName: 'Image Cover Index',
+								name: 'imageCoverIndex',
+								type: 'number',
+								default: 0,
+								typeOptions: {
+									minValue: 0,
+								},
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Only applies to Tiktok slideshows with multiple images. The index of the image to use as thumbnail cover (starts at 0).',
+							},
+							{
+								displayName: 'Is AI Generated',
+								name: 'postCreateTiktokOptionIsAiGenerated',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether this content is AI generated',
+							},
+							{
+								displayName: 'Is Branded Content',
+								name: 'postCreateTiktokOptionIsBrandedContent',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether this post contains branded content',
+							},
+							{
+								displayName: 'Is Your Brand',
+								name: 'postCreateTiktokOptionIsYourBrand',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Whether this post is about your own brand',
+							},
+							{
+								displayName: 'Link Preview',
+								name: 'facebookLink',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['facebook'],
+									},
+								},
+								description: 'URL to attach as a link preview to the Facebook post',
+							},
+							{
+								displayName: 'Linkedin Page ID',
+								name: 'linkedinPageId',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. 104410867',
+								displayOptions: {
+									show: {
+										platform: ['linkedin'],
+									},
+								},
+								description: 'Post to a Linkedin Company Page instead of your personal profile',
+							},
+							{
+								displayName: 'Made for Kids',
+								name: 'postCreateYoutubeOptionMadeForKids',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['youtube'],
+									},
+								},
+								description: 'Whether this video is made for kids',
+							},
+							{
+								displayName: 'Media Placement',
+								name: 'threadAutoSplitMediaPlacement',
+								type: 'options',
+								default: 'first',
+								options: [
+									{
+										name: 'First Post',
+										value: 'first',
+									},
+									{
+										name: 'Last Post',
+										value: 'last',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: THREAD_SUPPORTED_PLATFORMS,
+										threadInputMethod: ['autoSplit'],
+									},
+								},
+								description: 'Which post of the thread the media URLs are attached to',
+							},
+							{
+								displayName: 'Media Type',
+								name: 'facebookMediaType',
+								type: 'options',
+								default: 'reel',
+								options: [
+									{
+										name: 'Video',
+										value: 'video',
+									},
+									{
+										name: 'Reel',
+										value: 'reel',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: ['facebook'],
+									},
+								},
+								description: 'Type of Facebook video post - regular video or reel. Only applies for video posts.',
+							},
+							{
+								displayName: 'Media Type',
+								name: 'instagramMediaType',
+								type: 'options',
+								default: 'reel',
+								options: [
+									{
+										name: 'Reel',
+										value: 'reel',
+									},
+									{
+										name: 'Story',
+										value: 'story',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: ['instagram'],
+									},
+								},
+								description: 'Type of Instagram video post - reel or story. Only applies for video posts.',
+							},
+							{
+								displayName: 'Media URLs Override',
+								name: 'postContentMediaUrls',
+								type: 'string',
+								default: '',
+								description: 'Comma-separated list of media URLs for this target. Leave empty to use the main Media URLs.',
+							},
+							{
+								displayName: 'Notify Subscribers',
+								name: 'postCreateYoutubeOptionShouldNotifySubscribers',
+								type: 'boolean',
+								default: true,
+								displayOptions: {
+									show: {
+										platform: ['youtube'],
+									},
+								},
+								description: 'Whether to notify subscribers about this video',
+							},
+							{
+								displayName: 'Pin Title',
+								name: 'postCreatePinterestOptionTitle',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['pinterest'],
+									},
+								},
+								description: 'Optional title for the Pinterest pin',
+							},
+							{
+								displayName: 'Pinterest Alt Text',
+								name: 'pinterestAltText',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['pinterest'],
+									},
+								},
+								description: 'Alternative text for accessibility',
+							},
+							{
+								displayName: 'Pinterest Board ID',
+								name: 'pinterestBoardId',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. 123456789012345',
+								displayOptions: {
+									show: {
+										platform: ['pinterest'],
+									},
+								},
+								description: 'The Pinterest Board ID or board URL to pin to',
+							},
+							{
+								displayName: 'Pinterest Link',
+								name: 'pinterestLink',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['pinterest'],
+									},
+								},
+								description: 'URL the pin should link to',
+							},
+							{
+								displayName: 'Platform',
+								name: 'platform',
+								type: 'options',
+								options: PLATFORM_OPTIONS,
+								default: 'twitter',
+								description: 'Social media platform',
+							},
+							{
+								displayName: 'Post As Draft',
+								name: 'postCreateTiktokOptionIsDraft',
+								type: 'boolean',
+								default: false,
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+								},
+								description: 'Whether to post a DRAFT video/slideshow. It will go to your Tiktok Inbox > System Notifications.',
+							},
+							{
+								displayName: 'Privacy Level',
+								name: 'postCreateTiktokOptionPrivacyLevel',
+								type: 'options',
+								default: 'PUBLIC_TO_EVERYONE',
+								options: [
+									{
+										name: 'Self Only',
+										value: 'SELF_ONLY',
+									},
+									{
+										name: 'Public to Everyone',
+										value: 'PUBLIC_TO_EVERYONE',
+									},
+									{
+										name: 'Mutual Follow Friends',
+										value: 'MUTUAL_FOLLOW_FRIENDS',
+									},
+									{
+										name: 'Follower of Creator',
+										value: 'FOLLOWER_OF_CREATOR',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+								},
+								description: 'Set the privacy level for the TikTok post',
+							},
+							{
+								displayName: 'Privacy Status',
+								name: 'postCreateYoutubeOptionPrivacyStatus',
+								type: 'options',
+								default: 'public',
+								options: [
+									{
+										name: 'Public',
+										value: 'public',
+									},
+									{
+										name: 'Private',
+										value: 'private',
+									},
+									{
+										name: 'Unlisted',
+										value: 'unlisted',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: ['youtube'],
+									},
+								},
+								description: 'Privacy setting for the Youtube video',
+							},
+							{
+								displayName: 'Reply Control',
+								name: 'threadsReplyControl',
+								type: 'options',
+								default: 'everyone',
+								options: [
+									{
+										name: 'Everyone',
+										value: 'everyone',
+									},
+									{
+										name: 'Accounts You Follow',
+										value: 'accounts_you_follow',
+									},
+									{
+										name: 'Mentioned Only',
+										value: 'mentioned_only',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: ['threads'],
+									},
+								},
+								description: 'Control who can reply to your Threads post',
+							},
+							{
+								displayName: 'Slideshow Title',
+								name: 'postCreateTiktokOptionTitle',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									maxLength: 90,
+								},
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+								},
+								description: 'Title for Tiktok slideshow, less than 90 characters',
+							},
+							{
+								displayName: 'Text Override',
+								name: 'postContentText',
+								type: 'string',
+								typeOptions: {
+									rows: 3,
+								},
+								default: '',
+								description: 'Text for this target. Leave empty to use the main Text.',
+							},
+							{
+								displayName: 'Thread',
+								name: 'threadInputMethod',
+								type: 'options',
+								default: 'none',
+								options: [
+									{
+										name: 'Auto-Split Text',
+										value: 'autoSplit',
+										description: 'Split long text into platform-sized posts on paragraph and sentence boundaries',
+									},
+									{
+										name: 'From Data',
+										value: 'array',
+										description: 'Use array data from previous node',
+									},
+									{
+										name: 'No Thread',
+										value: 'none',
+										description: 'Post the text as a single post',
+									},
+								],
+								displayOptions: {
+									show: {
+										platform: THREAD_SUPPORTED_PLATFORMS,
+									},
+								},
+								description: 'Choose how to create a long-form thread for this target',
+							},
+							{
+								displayName: 'Thread Posts',
+								name: 'threadPostsArray',
+								type: 'string',
+								default: '[]',
+								displayOptions: {
+									show: {
+										platform: THREAD_SUPPORTED_PLATFORMS,
+										threadInputMethod: ['array'],
+									},
 								},
+								description: 'Array of posts. Each item must have "text" (string) and optionally "mediaUrls" (array of strings) properties.',
+							},
+							{
+								displayName: 'Video Cover Timestamp',
+								name: 'videoCoverTimestamp',
+								type: 'number',
+								default: 0,
+								typeOptions: {
+									minValue: 0,
+								},
+								displayOptions: {
+									show: {
+										platform: ['tiktok'],
+									},
+									hide: {
+										postCreateTiktokOptionIsDraft: [true],
+									},
+								},
+								description: 'Only applies to Tiktok videos. Location in milliseconds of video to be used as thumbnail cover.',
+							},
+							{
+								displayName: 'Video Title',
+								name: 'postCreateYoutubeOptionTitle',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										platform: ['youtube'],
+									},
+								},
+								description: 'Title of the Youtube video',
 							},
 						],
 					},
 				],
-				default: { mode: 'list', value: '' },
-				required: true,
-				displayOptions: {
-					show: {
-						resource: ['post'],
-						operation: ['create'],
-					},
-				},
-				description: 'Your Blotato social media account ID',
 			},
 
 			// post.content.text
@@ -751,7 +3142,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 					},
 				},
 				description: 'The main text for your post',
@@ -766,7 +3157,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 					},
 				},
 				description: 'Comma-separated list of media URLs',
@@ -783,7 +3174,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 					},
 				},
 				description: 'Whether to schedule post in next free slot for this account. If Scheduled Time is provided, this option is ignored.',
@@ -805,12 +3196,17 @@ export class Blotato implements INodeType {
 						value: 'array',
 						description: 'Use array data from previous node',
 					},
+					{
+						name: 'Auto-Split Text',
+						value: 'autoSplit',
+						description: 'Split long text into platform-sized posts on paragraph and sentence boundaries',
+					},
 				],
 				default: 'manual',
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: THREAD_SUPPORTED_PLATFORMS,
 					},
 				},
@@ -830,7 +3226,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: THREAD_SUPPORTED_PLATFORMS,
 						threadInputMethod: ['manual'],
 					},
@@ -880,13 +3276,55 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: THREAD_SUPPORTED_PLATFORMS,
 						threadInputMethod: ['array'],
 					},
 				},
 			},
 
+			// Auto-split options
+			{
+				displayName: 'Add Numbering',
+				name: 'threadAutoSplitNumbering',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create', 'update'],
+						platform: THREAD_SUPPORTED_PLATFORMS,
+						threadInputMethod: ['autoSplit'],
+					},
+				},
+				description: 'Whether to append "1/n" numbering to each post of the thread',
+			},
+			{
+				displayName: 'Media Placement',
+				name: 'threadAutoSplitMediaPlacement',
+				type: 'options',
+				options: [
+					{
+						name: 'First Post',
+						value: 'first',
+					},
+					{
+						name: 'Last Post',
+						value: 'last',
+					},
+				],
+				default: 'first',
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create', 'update'],
+						platform: THREAD_SUPPORTED_PLATFORMS,
+						threadInputMethod: ['autoSplit'],
+					},
+				},
+				description: 'Which post of the thread the media URLs are attached to',
+			},
+
 			// post.target - tiktok
 			{
 				displayName: 'Privacy Level',
@@ -914,7 +3352,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 				},
@@ -931,7 +3369,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 				},
@@ -946,7 +3384,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 				},
@@ -961,7 +3399,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -978,7 +3416,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -995,7 +3433,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -1012,7 +3450,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -1029,7 +3467,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -1046,7 +3484,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -1063,7 +3501,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['tiktok'],
 					},
 					hide: {
@@ -1086,6 +3524,7 @@ export class Blotato implements INodeType {
 						placeholder: 'Select a Facebook Page for this account',
 						typeOptions: {
 							searchListMethod: 'getSubaccounts',
+							searchable: true,
 						},
 					},
 					{
@@ -1109,7 +3548,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['facebook'],
 					},
 				},
@@ -1122,6 +3561,31 @@ export class Blotato implements INodeType {
 				name: 'pinterestBoardId',
 				type: 'resourceLocator',
 				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a Pinterest board for this account',
+						typeOptions: {
+							searchListMethod: 'getPinterestBoards',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By URL',
+						name: 'url',
+						type: 'string',
+						placeholder: 'e.g. https://www.pinterest.com/username/board-name/',
+						validation: [
+							{
+								type: 'regex',
+								properties: {
+									regex: PINTEREST_BOARD_URL_REGEX,
+									errorMessage: 'Not a valid Pinterest board URL',
+								},
+							},
+						],
+					},
 					{
 						displayName: 'By ID',
 						name: 'id',
@@ -1138,12 +3602,12 @@ export class Blotato implements INodeType {
 						],
 					},
 				],
-				default: { mode: 'id', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['pinterest'],
 					},
 				},
@@ -1158,7 +3622,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['pinterest'],
 					},
 				},
@@ -1175,7 +3639,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['youtube'],
 					},
 				},
@@ -1203,7 +3667,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['youtube'],
 					},
 				},
@@ -1217,7 +3681,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['youtube'],
 					},
 				},
@@ -1231,7 +3695,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['youtube'],
 					},
 				},
@@ -1245,7 +3709,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 						platform: ['youtube'],
 					},
 				},
@@ -1262,7 +3726,7 @@ export class Blotato implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['post'],
-						operation: ['create'],
+						operation: ['create', 'update'],
 					},
 				},
 				options: [
@@ -1296,6 +3760,13 @@ export class Blotato implements INodeType {
 						description: 'For Reels only. Name of the audio of your Reels media. You can only rename once, either while creating a reel or after from the audio page.',
 						placeholder: 'My Custom Audio Name',
 					},
+					{
+						displayName: 'Check Media Content Type',
+						name: 'checkMediaContentType',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to send a HEAD request for media URLs without a recognizable file extension, so their Content-Type can be checked against the platform\'s media rules',
+					},
 					{
 						displayName: 'Collaborators',
 						name: 'instagramCollaborators',
@@ -1367,6 +3838,7 @@ export class Blotato implements INodeType {
 								placeholder: 'Select a Linkedin Page',
 								typeOptions: {
 									searchListMethod: 'getSubaccounts',
+									searchable: true,
 								},
 							},
 							{
@@ -1464,6 +3936,26 @@ export class Blotato implements INodeType {
 						},
 						description: 'URL the pin should link to',
 					},
+					{
+						displayName: 'Publish Max Wait Time (Seconds)',
+						name: 'publishMaxWaitTime',
+						type: 'number',
+						default: 300,
+						typeOptions: {
+							minValue: 10,
+						},
+						description: 'Maximum time to wait for the post to be published before failing with a timeout error. Only applies when "Wait Until Published" is enabled.',
+					},
+					{
+						displayName: 'Publish Poll Interval (Seconds)',
+						name: 'publishPollInterval',
+						type: 'number',
+						default: 10,
+						typeOptions: {
+							minValue: 2,
+						},
+						description: 'How often to check the status of the post. Only applies when "Wait Until Published" is enabled.',
+					},
 					{
 						displayName: 'Reply Control',
 						name: 'threadsReplyControl',
@@ -1498,6 +3990,21 @@ export class Blotato implements INodeType {
 						description:
 							'Schedule the post for a future time. For example: "2024-12-31T23:59:59Z" for UTC time.',
 					},
+					{
+						displayName: 'Text Length Handling',
+						name: 'textLengthHandling',
+						type: 'options',
+						default: 'passThrough',
+						options: TEXT_LENGTH_HANDLING_OPTIONS,
+						description: 'What to do when the text, a thread post, or a title is longer than the platform allows. Twitter counts URLs as 23 characters, Bluesky counts graphemes.',
+					},
+					{
+						displayName: 'Validate Media',
+						name: 'validateMedia',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to check the number and types of media files against the platform\'s media rules before posting. Media whose type cannot be determined is left for Blotato to validate.',
+					},
 					{
 						displayName: 'Video Cover Timestamp',
 						name: 'videoCoverTimestamp',
@@ -1518,6 +4025,64 @@ export class Blotato implements INodeType {
 						description: 'Only applies to Tiktok videos. Location in milliseconds of video to be used as thumbnail cover. Must be whole number (1000 for 1 second). If not provided, the frame at 0 milliseconds will be used.',
 						hint: 'Only applies to Tiktok videos. Location in milliseconds of video to be used as thumbnail cover. Must be whole number (1000 for 1 second). If not provided, the frame at 0 milliseconds will be used.'
 					},
+					{
+						displayName: 'Wait Until Published',
+						name: 'waitUntilPublished',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to wait until the post is published (or failed) and return its public URL or error message. Skipped for posts scheduled in the future or in the next free slot.',
+					},
+				],
+			},
+
+			// Request options - apply to every resource
+			{
+				displayName: 'Request Options',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Max Retries',
+						name: 'maxRetries',
+						type: 'number',
+						default: RETRY_DEFAULT_MAX_RETRIES,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'How many times to retry a request that was rate limited (429) or hit a temporary server error (502/503/504, network reset). Set to 0 to disable retries. Posts and uploads are only retried when it is safe to do so.',
+					},
+					{
+						displayName: 'Max Wait Between Retries (Seconds)',
+						name: 'maxRetryWait',
+						type: 'number',
+						default: RETRY_DEFAULT_MAX_WAIT_SECONDS,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'Maximum time to wait before a retry. If Blotato asks to wait longer (Retry-After), the request fails instead.',
+					},
+					{
+						displayName: 'Media Uploads Per Minute',
+						name: 'mediaUploadsPerMinute',
+						type: 'number',
+						default: 10,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Maximum media uploads sent per minute. Requests are held back to stay under this limit. Increase it if your account has a higher quota, or set to 0 to disable throttling.',
+					},
+					{
+						displayName: 'Posts Per Minute',
+						name: 'postsPerMinute',
+						type: 'number',
+						default: 30,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Maximum post requests (create, update, delete, reschedule) sent per minute. Requests are held back to stay under this limit. Increase it if your account has a higher quota, or set to 0 to disable throttling.',
+					},
 				],
 			},
 		],
@@ -1526,13 +4091,14 @@ export class Blotato implements INodeType {
 	methods = {
 		listSearch: {
 			getAccounts,
+			getPinterestBoards,
 			getSubaccounts,
 			getTemplates,
 		},
 		resourceMapping: {
 			async getTemplateInputSchema(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
 				const templateIdParam = this.getNodeParameter('templateId', 0) as { value: string } | string;
-				const templateId = extractTemplateId(templateIdParam);
+				const templateId = extractResourceLocatorValue(templateIdParam);
 
 				if (!templateId) {
 					return {
@@ -1608,9 +4174,19 @@ export class Blotato implements INodeType {
 						if (input.type) {
 							switch (input.type.t) {
 								case 'text':
-								case 'image':
+								case 'color':
 									fieldType = 'string';
 									break;
+								case 'image':
+									fieldType = 'url';
+									break;
+								case 'number':
+								case 'duration':
+									fieldType = 'number';
+									break;
+								case 'date':
+									fieldType = 'dateTime';
+									break;
 								case 'boolean':
 									fieldType = 'boolean';
 									break;
@@ -1618,8 +4194,8 @@ export class Blotato implements INodeType {
 									fieldType = 'options';
 									break;
 								case 'array':
-									// For arrays, we'll use string type and expect JSON input
-									fieldType = 'string' as FieldType;
+									// Accepts real arrays from expressions as well as JSON strings
+									fieldType = 'array';
 									break;
 								default:
 									fieldType = 'string';
@@ -1628,7 +4204,7 @@ export class Blotato implements INodeType {
 
 						// Determine if field is required first
 						// Field is optional if it has a 'default' property (even if empty string), required if no default property
-						const isRequired = !input.type || !('default' in input.type);
+						const isRequired = isTemplateInputRequired(input);
 
 						// Build the display name with required/optional indicator
 						let displayName = input.label || input.name;
@@ -1652,13 +4228,33 @@ export class Blotato implements INodeType {
 							} else if (input.type.itemType?.t === 'object') {
 								// Array of objects
 								displayName += ` (e.g. [{"key": "value"}])`;
+							} else if (input.type.itemType?.t === 'image') {
+								// Array of image URLs
+								displayName += ` (e.g. ["https://example.com/1.jpg", "https://example.com/2.jpg"])`;
+							} else if (input.type.itemType?.t === 'enum' && input.type.itemType.values?.length) {
+								// Array of enum values
+								displayName += ` (any of: ${input.type.itemType.values.join(', ')})`;
 							} else {
-								// Default to array of strings (covers text, image, enum, etc.)
+								// Default to array of strings
 								displayName += ` (e.g. ["item 1", "item 2"])`;
 							}
 						} else if (input.type?.t === 'image') {
 							// For image/URL fields
 							displayName += ` (publicly accessible URL)`;
+						} else if (input.type?.t === 'color') {
+							displayName += ` (e.g. #FF5733)`;
+						} else if (input.type?.t === 'duration') {
+							displayName += ` (seconds)`;
+						}
+
+						// Show the template's default for optional fields, it is used when left empty
+						if (
+							!isRequired &&
+							input.type?.default !== undefined &&
+							input.type.default !== '' &&
+							typeof input.type.default !== 'object'
+						) {
+							displayName += ` [default: ${input.type.default}]`;
 						}
 
 						const field: ResourceMapperField = {
@@ -1705,15 +4301,110 @@ export class Blotato implements INodeType {
 		const inputItems = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
 
-		for (let i = 0; i < inputItems.length; i++) {
-			const resource = this.getNodeParameter('resource', i);
-			const operation = this.getNodeParameter('operation', i);
+		// Pace media uploads and post creation to stay within Blotato's per-resource limits
+		const rateLimitOptions = this.getNodeParameter('requestOptions', 0, {}) as {
+			mediaUploadsPerMinute?: number;
+			postsPerMinute?: number;
+		};
+		const rateLimiter = createRateLimiter({
+			media: rateLimitOptions.mediaUploadsPerMinute ?? DEFAULT_RATE_LIMITS_PER_MINUTE.media,
+			post: rateLimitOptions.postsPerMinute ?? DEFAULT_RATE_LIMITS_PER_MINUTE.post,
+		});
+
+		// Media URLs collected across items when binary uploads are aggregated into one item
+		const aggregatedMediaUrls: string[] = [];
+		const aggregatedPairedItems: Array<{ item: number }> = [];
+
+		// Template definitions fetched for input validation, shared by all items
+		const templateCache: Record<string, TemplateData> = {};
+
+		for (let i = 0; i < inputItems.length; i++) {
+			const resource = this.getNodeParameter('resource', i);
+			const operation = this.getNodeParameter('operation', i);
+
+			// The request body is built up field by field below, so keep it loosely typed
+			const options: Omit<IHttpRequestOptions, 'body'> & { body?: any } = {
+				url: '', // Will be set based on resource/operation
+			};
+			const postTargetRequests: Array<{
+				options: typeof options;
+				target?: { platform: string; accountId: string };
+				// Set when the target's body could not be built or validated
+				error?: Error;
+			}> = [];
+			// Set for Get Many operations, whose request follows the list pagination
+			let pagination: { returnAll: boolean; limit: number } | undefined;
+
+			if (resource === 'account') {
+				options.json = true;
+				options.method = 'GET';
+
+				if (operation === 'getMany') {
+					const accountFilters = this.getNodeParameter('accountFilters', i, {}) as {
+						platform?: string;
+					};
+
+					options.url = API_ENDPOINTS.ACCOUNTS;
+					options.qs = accountFilters.platform ? { platform: accountFilters.platform } : {};
+					pagination = {
+						returnAll: this.getNodeParameter('returnAll', i, false) as boolean,
+						limit: this.getNodeParameter('limit', i, 50) as number,
+					};
+				} else if (operation === 'get' || operation === 'getSubaccounts') {
+					const accountId = this.getNodeParameter('accountLookupId', i) as string;
+
+					if (!accountId) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Account ID is required',
+							{ itemIndex: i },
+						);
+					}
+
+					options.url =
+						operation === 'get'
+							? `${API_ENDPOINTS.ACCOUNTS}/${accountId}`
+							: `${API_ENDPOINTS.ACCOUNTS}/${accountId}/subaccounts`;
+				} else {
+					throw new NodeOperationError(
+						this.getNode(),
+						`Operation "${operation}" is not supported for resource "account".`,
+						{ itemIndex: i },
+					);
+				}
+			} else if (resource === 'template') {
+				options.json = true;
+				options.method = 'GET';
+				options.url = API_ENDPOINTS.VIDEO_TEMPLATES;
+
+				if (operation === 'get') {
+					const templateId = extractResourceLocatorValue(
+						this.getNodeParameter('templateLookupId', i) as { value: string } | string,
+					);
 
-			const options: IHttpRequestOptions = {
-				url: '', // Will be set based on resource/operation
-			};
+					if (!templateId) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Template is required',
+							{ itemIndex: i },
+						);
+					}
 
-			if (resource === 'source') {
+					options.qs = { id: templateId, fields: TEMPLATE_FIELDS };
+				} else if (operation === 'getMany') {
+					options.qs = { fields: TEMPLATE_FIELDS };
+					pagination = {
+						returnAll: this.getNodeParameter('returnAll', i, false) as boolean,
+						limit: this.getNodeParameter('limit', i, 50) as number,
+					};
+				} else {
+					throw new NodeOperationError(
+						this.getNode(),
+						`Operation "${operation}" is not supported for resource "template".`,
+						{ itemIndex: i },
+					);
+				}
+			} else if (resource === 'source') {
 				options.json = true;
 
 				if (operation === 'create') {
@@ -1807,7 +4498,7 @@ export class Blotato implements INodeType {
 					options.method = 'POST';
 					options.url = API_ENDPOINTS.VIDEO_FROM_TEMPLATES;
 					const templateIdParam = this.getNodeParameter('templateId', i) as { value: string } | string;
-					const templateId = extractTemplateId(templateIdParam);
+					const templateId = extractResourceLocatorValue(templateIdParam);
 
 					// Get the template inputs from Resource Mapper
 					const templateInputsData = this.getNodeParameter('templateInputs', i) as {
@@ -1820,23 +4511,21 @@ export class Blotato implements INodeType {
 					// Handle Resource Mapper data format
 					if (templateInputsData && templateInputsData.value) {
 						inputs = templateInputsData.value;
+					}
 
-						// Parse JSON strings for array-type inputs with improved error handling
-						for (const [key, value] of Object.entries(inputs)) {
-							if (typeof value === 'string') {
-								const trimmedValue = value.trim();
-								if (trimmedValue.startsWith('[') || trimmedValue.startsWith('{')) {
-									try {
-										inputs[key] = JSON.parse(trimmedValue);
-									} catch (error) {
-										// Log warning but keep as string if parsing fails
-										this.logger.warn(
-											`Failed to parse JSON for field '${key}': ${error instanceof Error ? error.message : 'Unknown error'}`,
-										);
-									}
-								}
-							}
+					// Validate the inputs against the template's schema, so bad inputs fail before rendering
+					try {
+						templateCache[templateId] ??= await fetchTemplate.call(this, i, templateId);
+						inputs = prepareTemplateInputs.call(this, i, templateCache[templateId], inputs);
+					} catch (error) {
+						if (this.continueOnFail()) {
+							returnData.push({
+								json: { error: error.message || 'An error occurred', templateId },
+								pairedItem: { item: i },
+							});
+							continue;
 						}
+						throw error;
 					}
 
 					const prompt = this.getNodeParameter('prompt', i, '') as string;
@@ -1882,34 +4571,64 @@ export class Blotato implements INodeType {
 				}
 			} else if (resource === 'media') {
 				options.json = true;
-				options.method = 'POST';
-				options.url = '/v2/media';
 
-				if (operation === 'upload') {
+				if (operation === 'get' || operation === 'delete') {
+					const mediaId = this.getNodeParameter('mediaId', i) as string;
+
+					if (!mediaId) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Media ID is required',
+							{ itemIndex: i },
+						);
+					}
+
+					options.method = operation === 'get' ? 'GET' : 'DELETE';
+					options.url = `${API_ENDPOINTS.MEDIA}/${mediaId}`;
+				} else if (operation === 'getMany') {
+					options.method = 'GET';
+					options.url = API_ENDPOINTS.MEDIA;
+					pagination = {
+						returnAll: this.getNodeParameter('returnAll', i, false) as boolean,
+						limit: this.getNodeParameter('limit', i, 50) as number,
+					};
+				} else if (operation === 'upload') {
+					options.method = 'POST';
+					options.url = API_ENDPOINTS.MEDIA;
+
 					const useBinaryData = this.getNodeParameter('useBinaryData', i) as boolean;
 
 					if (useBinaryData) {
-						// Handle binary data upload
+						// Binary files are uploaded in two steps by the helper, not by the request below
 						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
-						const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
-
-						// Convert binary data to data URI
-						const dataBuffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+						const aggregateItems = this.getNodeParameter('aggregateItems', i, false) as boolean;
 
-						if (dataBuffer.length > BINARY_UPLOAD_MAX_SIZE_BYTES) {
-							const sizeMB = (dataBuffer.length / (1024 * 1024)).toFixed(2);
-							throw new NodeOperationError(
-								this.getNode(),
-								`File size (${sizeMB}MB) exceeds ${BINARY_UPLOAD_MAX_SIZE_MB}MB limit. Large files should be uploaded via URL instead of binary data. You can use Google Drive (up to 60MB), Dropbox, Frame.io, or similar services. S3/GCS buckets are recommended for very large files.`,
-								{ itemIndex: i },
-							);
+						const mediaUrls: string[] = [];
+						try {
+							const binaryPropertyNames = resolveBinaryPropertyNames.call(this, i, binaryPropertyName);
+							for (const propertyName of binaryPropertyNames) {
+								mediaUrls.push(await uploadBinaryMedia.call(this, i, propertyName, rateLimiter));
+							}
+						} catch (error) {
+							if (this.continueOnFail()) {
+								returnData.push({
+									json: { error: error.message || 'An error occurred' },
+									pairedItem: { item: i },
+								});
+								continue;
+							}
+							throw error;
 						}
 
-						const base64 = dataBuffer.toString('base64');
-						const mimeType = binaryData.mimeType || 'application/octet-stream';
-						const dataUri = `data:${mimeType};base64,${base64}`;
-
-						options.body = { url: dataUri };
+						// Always return the ordered mediaUrls, so the output shape does not depend on how
+						// many properties matched. url keeps the first file for existing workflows.
+						if (aggregateItems) {
+							aggregatedMediaUrls.push(...mediaUrls);
+							aggregatedPairedItems.push({ item: i });
+						} else {
+							returnData.push({ json: { url: mediaUrls[0], mediaUrls }, pairedItem: { item: i } });
+						}
+						continue;
 					} else {
 						// Handle URL upload
 						options.body = { url: this.getNodeParameter('mediaUrl', i) };
@@ -1937,341 +4656,192 @@ export class Blotato implements INodeType {
 
 					options.method = 'GET';
 					options.url = `${API_ENDPOINTS.POST_GET}/${postSubmissionId}`;
-				} else if (operation === 'create') {
-				options.method = 'POST';
-				options.url = '/v2/posts';
-
-				const platform = this.getNodeParameter('platform', i) as string;
-				const accountId = (this.getNodeParameter('accountId', i) as { value: string }).value;
-
-				// common options
-				options.body = {
-					post: {
-						target: {
-							targetType: platform,
-						},
-						content: {
-							platform: platform,
-							text: this.getNodeParameter('postContentText', i),
-							mediaUrls: (() => {
-								const mediaUrlsParam = this.getNodeParameter('postContentMediaUrls', i);
-								// Handle both string (comma-separated) and array inputs
-								if (Array.isArray(mediaUrlsParam)) {
-									// If already an array (e.g., from GET VIDEO imageUrls), use it directly
-									return mediaUrlsParam.filter(url => url && typeof url === 'string');
-								} else if (typeof mediaUrlsParam === 'string') {
-									// If string, split by comma (existing behavior)
-									return mediaUrlsParam
-										.split(',')
-										.map((url) => url.trim())
-										.filter(Boolean);
-								}
-								// If empty or other type, return empty array
-								return [];
-							})(),
-						},
-						accountId: accountId,
-					},
-				};
-
-				// Validate media requirements for specific platforms
-				const mediaUrls = options.body.post.content.mediaUrls as string[];
-				const requiresMedia = ['instagram', 'tiktok', 'pinterest', 'youtube'].includes(platform);
-
-				if (requiresMedia && mediaUrls.length === 0) {
-					throw new NodeOperationError(
-						this.getNode(),
-						`${platform.charAt(0).toUpperCase() + platform.slice(1)} requires you to post an image or video.`,
-						{ itemIndex: i },
-					);
-				}
+				} else if (operation === 'update' || operation === 'delete') {
+					const postSubmissionId = this.getNodeParameter('postSubmissionId', i) as string;
 
-				// Handle options collection
-				const postOptions = this.getNodeParameter('options', i, {}) as {
-					scheduledTime?: string;
-					linkedinPageId?: string | { value?: string };
-					facebookMediaType?: string;
-					facebookLink?: string;
-					instagramMediaType?: string;
-					instagramAudioName?: string;
-					instagramCollaborators?: string;
-					instagramAltText?: string;
-					instagramCoverImageUrl?: string;
-					pinterestAltText?: string;
-					pinterestLink?: string;
-					threadsReplyControl?: string;
-					imageCoverIndex?: number;
-					videoCoverTimestamp?: number;
-				};
-
-
-				if (postOptions.scheduledTime) {
-					// Ensure scheduledTime has timezone - append 'Z' for UTC if no timezone specified
-					let scheduledTime = postOptions.scheduledTime;
-					const hasTimezone =
-						scheduledTime.includes('Z') ||
-						scheduledTime.includes('+') ||
-						scheduledTime.match(/[+-]\d{2}:\d{2}$/);
-
-					if (!hasTimezone) {
-						scheduledTime += 'Z'; // Assume UTC if no timezone specified
+					if (!postSubmissionId) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Post Submission ID is required',
+							{ itemIndex: i },
+						);
 					}
-					// Place scheduledTime at root level, not inside post object
-					options.body.scheduledTime = scheduledTime;
-				}
-
-				// Add useNextFreeSlot if specified (ignored if scheduledTime is provided)
-				const useNextFreeSlot = this.getNodeParameter('useNextFreeSlot', i, false) as boolean;
-				options.body.useNextFreeSlot = useNextFreeSlot;
-
-				// thread handling for platforms that support threads
-				if (THREAD_SUPPORTED_PLATFORMS.includes(platform)) {
-					const threadInputMethod = this.getNodeParameter(
-						'threadInputMethod',
-						i,
-						'manual',
-					) as string;
-
-					if (threadInputMethod === 'manual') {
-						// Manual input method - use fixedCollection
-						const additionalPostsData = this.getNodeParameter('postContentAdditionalPosts', i, {
-							posts: [],
-						}) as {
-							posts: Array<{ text: string; mediaUrls: string }>;
-						};
 
-						if (additionalPostsData.posts && additionalPostsData.posts.length > 0) {
-							options.body.post.content.additionalPosts = additionalPostsData.posts.map((post) => ({
-								text: post.text,
-								mediaUrls: post.mediaUrls
-									? post.mediaUrls
-											.split(',')
-											.map((url) => url.trim())
-											.filter(Boolean)
-									: [],
-							}));
-						}
-					} else if (threadInputMethod === 'array') {
-						// Array input method - use dynamic data
-						let threadPostsArray = this.getNodeParameter('threadPostsArray', i) as any;
+					options.url = `${API_ENDPOINTS.POST_GET}/${postSubmissionId}`;
 
-						// Handle both string (from Fixed mode) and array (from Expression mode) inputs
-						if (typeof threadPostsArray === 'string' && threadPostsArray.trim() !== '') {
-							try {
-								threadPostsArray = JSON.parse(threadPostsArray);
-							} catch (error) {
-								throw new NodeOperationError(
-									this.getNode(),
-									'Thread Posts must be a valid JSON array. Example: [{"text": "Post 1", "mediaUrls": []}, {"text": "Post 2", "mediaUrls": ["https://database.blotato.io/image.jpg"]}]',
-									{ itemIndex: i },
-								);
+					if (operation === 'delete') {
+						options.method = 'DELETE';
+					} else {
+						// Updates go through the same body building and validation as Create
+						const platform = this.getNodeParameter('platform', i) as string;
+						const accountId = (this.getNodeParameter('accountId', i) as { value: string }).value;
+
+						options.method = 'PATCH';
+						try {
+							options.body = buildPostBody.call(
+								this,
+								i,
+								platform,
+								accountId,
+								await getPinterestBoardOverride.call(this, i, platform, accountId),
+							);
+							await validatePostMedia.call(this, options.body, platform, i);
+						} catch (error) {
+							if (this.continueOnFail()) {
+								returnData.push({
+									json: { error: error.message || 'An error occurred' },
+									pairedItem: { item: i },
+								});
+								continue;
 							}
+							throw error;
 						}
+					}
+				} else if (operation === 'retry') {
+					const postSubmissionId = this.getNodeParameter('postSubmissionId', i) as string;
+					const retryChanges = this.getNodeParameter('postRetryChanges', i, {}) as RetryChanges;
 
-						if (Array.isArray(threadPostsArray) && threadPostsArray.length > 0) {
-							options.body.post.content.additionalPosts = threadPostsArray.map((post: any) => ({
-								text: post.text || '',
-								mediaUrls: post.mediaUrls
-									? Array.isArray(post.mediaUrls)
-										? post.mediaUrls
-										: typeof post.mediaUrls === 'string'
-											? post.mediaUrls
-													.split(',')
-													.map((url: string) => url.trim())
-													.filter(Boolean)
-											: []
-									: [],
-							}));
+					if (!postSubmissionId) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Post Submission ID is required',
+							{ itemIndex: i },
+						);
+					}
+
+					// The failed post is resubmitted as a new post, through the same request as Create
+					options.method = 'POST';
+					options.url = API_ENDPOINTS.POST_GET;
+					try {
+						options.body = await buildRetryPostBody.call(this, i, postSubmissionId, retryChanges);
+					} catch (error) {
+						if (this.continueOnFail()) {
+							returnData.push({
+								json: { error: error.message || 'An error occurred', postSubmissionId },
+								pairedItem: { item: i },
+							});
+							continue;
 						}
+						throw error;
 					}
-				}
+				} else if (operation === 'reschedule') {
+					// Lists and updates several posts, so it is sent here rather than by the request below
+					const credentials = await this.getCredentials('blotatoApi');
 
-				// platform specific
-				switch (platform) {
-					case 'facebook':
-						options.body.post.target.pageId = (
-							this.getNodeParameter('facebookPageId', i) as { value: string }
-						).value;
-						// Add media type option from options if specified (only for videos)
-						if (postOptions.facebookMediaType) {
-							options.body.post.target.mediaType = postOptions.facebookMediaType;
+					let rescheduledPosts;
+					try {
+						rescheduledPosts = await reschedulePosts.call(
+							this,
+							i,
+							credentials.server as string,
+							rateLimiter,
+						);
+					} catch (error) {
+						if (this.continueOnFail()) {
+							returnData.push({
+								json: { error: error.message || 'An error occurred' },
+								pairedItem: { item: i },
+							});
+							continue;
 						}
-						// Add link preview if specified
-						if (postOptions.facebookLink) {
-							options.body.post.target.link = postOptions.facebookLink;
+						if (error instanceof NodeOperationError) {
+							throw error;
 						}
-						break;
-					case 'tiktok':
-						const isDraft = this.getNodeParameter(
-							'postCreateTiktokOptionIsDraft',
-							i,
-							false,
-						) as boolean;
+						throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex: i });
+					}
 
-						// Get optional title for slideshows
-						const tiktokTitle = this.getNodeParameter(
-							'postCreateTiktokOptionTitle',
-							i,
-							'',
-						) as string;
+					returnData.push(
+						...rescheduledPosts.map((post) => ({ json: post, pairedItem: { item: i } })),
+					);
+					continue;
+				} else if (operation === 'getMany') {
+					const postFilters = this.getNodeParameter('postFilters', i, {}) as IDataObject;
 
-						options.body.post.target = {
-							...options.body.post.target,
-							privacyLevel: this.getNodeParameter(
-								'postCreateTiktokOptionPrivacyLevel',
-								i,
-							) as string,
-							disabledComments: this.getNodeParameter(
-								'postCreateTiktokOptionDisabledComments',
-								i,
-								false,
-							) as boolean,
-							disabledDuet: this.getNodeParameter(
-								'postCreateTiktokOptionDisabledDuet',
-								i,
-								false,
-							) as boolean,
-							disabledStitch: this.getNodeParameter(
-								'postCreateTiktokOptionDisabledStitch',
-								i,
-								false,
-							) as boolean,
-							isBrandedContent: this.getNodeParameter(
-								'postCreateTiktokOptionIsBrandedContent',
-								i,
-								false,
-							) as boolean,
-							isYourBrand: this.getNodeParameter(
-								'postCreateTiktokOptionIsYourBrand',
-								i,
-								false,
-							) as boolean,
-							isAiGenerated: this.getNodeParameter(
-								'postCreateTiktokOptionIsAiGenerated',
-								i,
-								false,
-							) as boolean,
-							autoAddMusic: this.getNodeParameter(
-								'postCreateTiktokOptionAutoAddMusic',
-								i,
-								false,
-							) as boolean,
-							isDraft: isDraft,
-							// Optional title for slideshows (visible even in draft mode)
-							...(tiktokTitle ? { title: tiktokTitle } : {}),
-							// Cover settings should not be sent when posting as draft
-							imageCoverIndex: isDraft ? undefined : postOptions.imageCoverIndex,
-							videoCoverTimestamp: isDraft ? undefined : postOptions.videoCoverTimestamp,
+					options.method = 'GET';
+					options.url = API_ENDPOINTS.POST_GET;
+					// Only send the filters that were set
+					options.qs = Object.fromEntries(
+						Object.entries(postFilters).filter(([, value]) => value !== '' && value !== undefined),
+					);
+					pagination = {
+						returnAll: this.getNodeParameter('returnAll', i, false) as boolean,
+						limit: this.getNodeParameter('limit', i, 50) as number,
+					};
+				} else if (operation === 'create') {
+					options.method = 'POST';
+					options.url = '/v2/posts';
+
+					const postTargetMode = this.getNodeParameter('postTargetMode', i, 'single') as string;
+
+					if (postTargetMode === 'multiple') {
+						const postTargets = this.getNodeParameter('postTargets', i, {}) as {
+							target?: IDataObject[];
 						};
-						break;
-					case 'bluesky':
-						// Bluesky requires no additional configuration
-						break;
-					case 'threads':
-						// Add reply control option from options if specified
-						if (postOptions.threadsReplyControl) {
-							options.body.post.target.replyControl = postOptions.threadsReplyControl;
+						const targets = postTargets.target ?? [];
+
+						if (targets.length === 0) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Add at least one target account to post to',
+								{ itemIndex: i },
+							);
 						}
-						break;
-					case 'linkedin':
-						// Add optional LinkedIn page ID from options
-						if (postOptions.linkedinPageId) {
-							const pageIdValue =
-								typeof postOptions.linkedinPageId === 'object'
-									? postOptions.linkedinPageId.value
-									: postOptions.linkedinPageId;
-							if (pageIdValue) {
-								options.body.post.target.pageId = pageIdValue;
+
+						// One request per target, each with its own platform-specific body. A target that
+						// fails validation only fails its own request, so the other targets are still posted.
+						for (const target of targets) {
+							const platform = target.platform as string;
+							const accountId = extractResourceLocatorValue(target.accountId as string);
+
+							try {
+								const overrides = { ...target };
+								if (platform === 'pinterest' && target.pinterestBoardId) {
+									overrides.pinterestBoardId = await resolvePinterestBoardId.call(
+										this,
+										i,
+										accountId,
+										target.pinterestBoardId as string,
+									);
+								}
+								const body = buildPostBody.call(this, i, platform, accountId, overrides);
+								await validatePostMedia.call(this, body, platform, i);
+
+								postTargetRequests.push({
+									options: {
+										...options,
+										body,
+									},
+									target: { platform, accountId },
+								});
+							} catch (error) {
+								postTargetRequests.push({ options, target: { platform, accountId }, error });
 							}
 						}
-						break;
-					case 'instagram':
-						// Add media type option from options (reel or story)
-						if (postOptions.instagramMediaType) {
-							options.body.post.target.mediaType = postOptions.instagramMediaType;
-						}
-						// Add audio name for Reels
-						if (postOptions.instagramAudioName) {
-							options.body.post.target.audioName = postOptions.instagramAudioName;
-						}
-						// Add collaborators
-						if (postOptions.instagramCollaborators) {
-							// Split comma-separated usernames and trim whitespace
-							const collaborators = postOptions.instagramCollaborators
-								.split(',')
-								.map((username) => username.trim())
-								.filter(Boolean)
-								.slice(0, 3); // Ensure max 3 collaborators
-							if (collaborators.length > 0) {
-								options.body.post.target.collaborators = collaborators;
+					} else {
+						const platform = this.getNodeParameter('platform', i) as string;
+						const accountId = (this.getNodeParameter('accountId', i) as { value: string }).value;
+
+						// Validation errors fail only this item, like a failed request
+						try {
+							options.body = buildPostBody.call(
+								this,
+								i,
+								platform,
+								accountId,
+								await getPinterestBoardOverride.call(this, i, platform, accountId),
+							);
+							await validatePostMedia.call(this, options.body, platform, i);
+						} catch (error) {
+							if (this.continueOnFail()) {
+								returnData.push({
+									json: { error: error.message || 'An error occurred' },
+									pairedItem: { item: i },
+								});
+								continue;
 							}
+							throw error;
 						}
-						// Add alt text for accessibility
-						if (postOptions.instagramAltText) {
-							options.body.post.target.altText = postOptions.instagramAltText;
-						}
-						// Add cover image URL for Reels
-						if (postOptions.instagramCoverImageUrl) {
-							options.body.post.target.coverImageUrl = postOptions.instagramCoverImageUrl;
-						}
-						break;
-					case 'pinterest':
-						// Required board ID
-						options.body.post.target.boardId = (
-							this.getNodeParameter('pinterestBoardId', i) as { value: string }
-						).value;
-						// Optional fields
-						const pinTitle = this.getNodeParameter(
-							'postCreatePinterestOptionTitle',
-							i,
-							'',
-						) as string;
-						if (pinTitle) {
-							options.body.post.target.title = pinTitle;
-						}
-						// Get alt text and link from options
-						if (postOptions.pinterestAltText) {
-							options.body.post.target.altText = postOptions.pinterestAltText;
-						}
-						if (postOptions.pinterestLink) {
-							options.body.post.target.link = postOptions.pinterestLink;
-						}
-						break;
-					case 'youtube':
-						// YouTube requires several fields
-						options.body.post.target.title = this.getNodeParameter(
-							'postCreateYoutubeOptionTitle',
-							i,
-						) as string;
-						options.body.post.target.privacyStatus = this.getNodeParameter(
-							'postCreateYoutubeOptionPrivacyStatus',
-							i,
-						) as string;
-						options.body.post.target.shouldNotifySubscribers = this.getNodeParameter(
-							'postCreateYoutubeOptionShouldNotifySubscribers',
-							i,
-						) as boolean;
-						options.body.post.target.isMadeForKids = this.getNodeParameter(
-							'postCreateYoutubeOptionMadeForKids',
-							i,
-						) as boolean;
-						options.body.post.target.containsSyntheticMedia = this.getNodeParameter(
-							'postCreateYoutubeOptionContainsSyntheticMedia',
-							i,
-						) as boolean;
-						break;
-					case 'twitter':
-						// Twitter requires no additional configuration
-						// Only targetType is needed, which is already set above
-						// Thread support is handled via additionalPosts
-						break;
-					default:
-						throw new NodeOperationError(
-							this.getNode(),
-							`Platform "${platform}" is not supported for resource "post".`,
-							{ itemIndex: i },
-						);
-				}
+					}
 				} else {
 					throw new NodeOperationError(
 						this.getNode(),
@@ -2285,143 +4855,339 @@ export class Blotato implements INodeType {
 
 
 			const credentials = await this.getCredentials('blotatoApi');
-			// prepend server to path
-			options.url = credentials.server + options.url!;
-
-			let response;
-			try {
-				response = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'blotatoApi',
-					options,
-				);
-			} catch (error) {
-				if (this.continueOnFail()) {
-					const errorMessage = error.message || 'An error occurred';
-					const errorDescription = error.description || error.response?.data?.message || error.response?.data?.error || '';
 
-					const combinedMessage = errorDescription && errorDescription !== errorMessage
-						? `${errorMessage}: ${errorDescription}`
-						: errorMessage;
+			// Multi-account post creation sends one request per target, everything else sends one request
+			const requests = postTargetRequests.length > 0 ? postTargetRequests : [{ options, target: undefined, error: undefined }];
 
-					returnData.push({
-						json: {
-							error: combinedMessage,
-							errorDetails: error,
-						},
-						pairedItem: { item: i },
-						error: new NodeApiError(this.getNode(), error as JsonObject, {
-							itemIndex: i,
-						}),
-					});
-					continue;
+			for (const { options: requestOptions, target, error: targetError } of requests) {
+				if (targetError) {
+					if (this.continueOnFail()) {
+						returnData.push({
+							json: {
+								error: targetError.message,
+								...target,
+							},
+							pairedItem: { item: i },
+						});
+						continue;
+					}
+					throw targetError;
 				}
 
-				throw new NodeApiError(this.getNode(), error as JsonObject, {
-					itemIndex: i,
-				});
-			}
+				// prepend server to path
+				requestOptions.url = credentials.server + requestOptions.url!;
+
+				let response;
+				try {
+					// Every write counts towards the limits, reads are not throttled
+					if ((requestOptions.method ?? 'GET') !== 'GET') {
+						await rateLimiter.acquire(resource as string);
+					}
+					response = pagination
+						? await requestAllItems.call(this, requestOptions, i, pagination)
+						: await requestWithRetry.call(this, requestOptions, i);
+				} catch (error) {
+					if (this.continueOnFail()) {
+						const errorMessage = error.message || 'An error occurred';
+						const errorDescription = error.description || error.response?.data?.message || error.response?.data?.error || '';
+
+						const combinedMessage = errorDescription && errorDescription !== errorMessage
+							? `${errorMessage}: ${errorDescription}`
+							: errorMessage;
+
+						returnData.push({
+							json: {
+								error: combinedMessage,
+								errorDetails: error,
+								...target,
+							},
+							pairedItem: { item: i },
+							error: new NodeApiError(this.getNode(), error as JsonObject, {
+								itemIndex: i,
+							}),
+						});
+						continue;
+					}
 
-			// Handle different operations
-			if (resource === 'video' && operation === 'get') {
-				const responseData = typeof response === 'string' ? JSON.parse(response) : response;
-				const status = responseData?.item?.status;
+					throw new NodeApiError(this.getNode(), error as JsonObject, {
+						itemIndex: i,
+					});
+				}
 
-				if (status && ['generating-script', 'script-ready', 'queueing'].includes(status)) {
-					// Add a hint message to the response
-					const hintMessage = `⚠️ Your video/carousel is not done yet. Wait a little longer, and check you have sufficient credits if you are generating AI images or AI videos: ${BLOTATO_URLS.BILLING}`;
+				// Handle different operations
+				if (operation === 'getMany') {
+					returnData.push(
+						...(response as IDataObject[]).map((item) => ({
+							json: item,
+							pairedItem: { item: i },
+						})),
+					);
+				} else if (resource === 'account' && operation === 'getSubaccounts') {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					const subaccounts = (responseData?.items ?? []) as IDataObject[];
+					returnData.push(
+						...subaccounts.map((subaccount) => ({
+							json: subaccount,
+							pairedItem: { item: i },
+						})),
+					);
+				} else if (resource === 'account' && operation === 'get') {
+					// Unwrap the account so it has the same shape as the Get Many items
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					returnData.push({
+						json: responseData?.item ?? responseData,
+						pairedItem: { item: i }
+					});
+				} else if (resource === 'template' && operation === 'get') {
+					// The templates endpoint returns a list when filtered by ID
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					const templates = responseData?.items ?? responseData;
+					const templateData = (Array.isArray(templates) ? templates[0] : templates) as
+						| TemplateData
+						| undefined;
 
-					// Add the hint as a property in the response
-					if (responseData.item) {
-						responseData.item._hint = hintMessage;
+					if (!templateData) {
+						const templateId = extractResourceLocatorValue(
+							this.getNodeParameter('templateLookupId', i) as { value: string } | string,
+						);
+						throw new NodeOperationError(
+							this.getNode(),
+							`Template not found: ${templateId}`,
+							{ itemIndex: i },
+						);
 					}
 
 					returnData.push({
-						json: responseData,
+						json: templateData as unknown as IDataObject,
 						pairedItem: { item: i }
 					});
-				} else {
-					returnData.push({ json: response, pairedItem: { item: i } });
-				}
-			} else if (resource === 'video' && operation === 'delete') {
-				// DELETE returns 204 No Content, so we create a success message
-				const videoId = this.getNodeParameter('videoId', i) as string;
-				returnData.push({
-					json: {
-						success: true,
-						message: `Video ID ${videoId} deleted successfully`
-					},
-					pairedItem: { item: i }
-				});
-			} else if (resource === 'source' && operation === 'get') {
-				const responseData = typeof response === 'string' ? JSON.parse(response) : response;
-				const status = responseData?.status;
-
-				// Clean transcript if option is enabled and content exists
-				const shouldCleanTranscript = this.getNodeParameter('cleanTranscript', i, true) as boolean;
-				if (shouldCleanTranscript && responseData?.content) {
-					responseData.content = cleanTranscript(responseData.content);
-				}
+				} else if (resource === 'video' && operation === 'get') {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					const status = responseData?.item?.status;
 
-				// Add helpful hints based on source resolution status
-				if (status === 'pending' || status === 'processing') {
-					if (!responseData._hint) {
-						responseData._hint = '⏳ Source is still being processed. Try again in a moment.';
-					}
-				} else if (status === 'failed' && responseData.error) {
-					if (!responseData._hint) {
-						responseData._hint = `❌ Source extraction failed: ${responseData.error}`;
+					if (status && VIDEO_IN_PROGRESS_STATUSES.includes(status)) {
+						// Add a hint message to the response
+						const hintMessage = `⚠️ Your video/carousel is not done yet. Wait a little longer, and check you have sufficient credits if you are generating AI images or AI videos: ${BLOTATO_URLS.BILLING}`;
+
+						// Add the hint as a property in the response
+						if (responseData.item) {
+							responseData.item._hint = hintMessage;
+						}
+
+						returnData.push({
+							json: responseData,
+							pairedItem: { item: i }
+						});
+					} else {
+						returnData.push({ json: response, pairedItem: { item: i } });
 					}
-				} else if (status === 'completed' || status === 'success') {
-					if (!responseData._hint) {
-						responseData._hint = '✅ Source content extracted successfully!';
+				} else if (
+					resource === 'video' &&
+					operation === 'create' &&
+					this.getNodeParameter('waitForCompletion', i, false)
+				) {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					const videoId = responseData?.item?.id ?? responseData?.id;
+
+					await waitForCompletion.call(this, returnData, {
+						path: API_ENDPOINTS.VIDEO_GET,
+						id: videoId,
+						itemIndex: i,
+						intervalSeconds: this.getNodeParameter('pollInterval', i, POLL_DEFAULT_INTERVAL_SECONDS) as number,
+						maxWaitSeconds: this.getNodeParameter('maxWaitTime', i, POLL_DEFAULT_MAX_WAIT_SECONDS) as number,
+						getStatus: (data) => data?.item?.status,
+						doneStatuses: VIDEO_DONE_STATUSES,
+						failedStatuses: VIDEO_FAILED_STATUSES,
+						throwOnFailure: true,
+						missingIdMessage: 'Visual was created but no ID was returned, so its status cannot be checked',
+						waitingFor: `visual ${videoId} to finish`,
+						timeoutDescription: `Increase "Max Wait Time" or check you have sufficient credits if you are generating AI images or AI videos: ${BLOTATO_URLS.BILLING}`,
+						getFailureMessage: (data) => `Visual ${videoId} failed to render (status: ${data?.item?.status})`,
+						failureDescription: `View the error details in the API Dashboard: ${BLOTATO_URLS.API_DASHBOARD}`,
+						formatResult: (data) => data,
+						errorFields: { videoId },
+					});
+				} else if (resource === 'video' && operation === 'delete') {
+					// DELETE returns 204 No Content, so we create a success message
+					const videoId = this.getNodeParameter('videoId', i) as string;
+					returnData.push({
+						json: {
+							success: true,
+							message: `Video ID ${videoId} deleted successfully`
+						},
+						pairedItem: { item: i }
+					});
+				} else if (resource === 'media' && operation === 'delete') {
+					// DELETE returns 204 No Content, so we create a success message
+					const mediaId = this.getNodeParameter('mediaId', i) as string;
+					returnData.push({
+						json: {
+							success: true,
+							message: `Media ID ${mediaId} deleted successfully`
+						},
+						pairedItem: { item: i }
+					});
+				} else if (resource === 'post' && operation === 'retry') {
+					// Link the new submission to the one that failed
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					returnData.push({
+						json: {
+							...responseData,
+							retriedPostSubmissionId: this.getNodeParameter('postSubmissionId', i) as string,
+						},
+						pairedItem: { item: i }
+					});
+				} else if (resource === 'post' && operation === 'delete') {
+					// DELETE returns 204 No Content, so we create a success message
+					const postSubmissionId = this.getNodeParameter('postSubmissionId', i) as string;
+					returnData.push({
+						json: {
+							success: true,
+							message: `Post submission ${postSubmissionId} cancelled successfully`
+						},
+						pairedItem: { item: i }
+					});
+				} else if (resource === 'source' && operation === 'get') {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+
+					// Clean transcript if option is enabled and content exists
+					const shouldCleanTranscript = this.getNodeParameter('cleanTranscript', i, true) as boolean;
+					if (shouldCleanTranscript && responseData?.content) {
+						responseData.content = cleanTranscript(responseData.content);
 					}
-				}
 
-				returnData.push({
-					json: responseData,
-					pairedItem: { item: i }
-				});
-			} else if (resource === 'source' && operation === 'create') {
-				const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					addSourceStatusHint(responseData);
 
-				// Add hint about polling for results
-				if (responseData.id && !responseData._hint) {
-					responseData._hint = `📋 Source submitted for processing. Use "Get Source" with ID: ${responseData.id} to retrieve the extracted content.`;
-				}
+					returnData.push({
+						json: responseData,
+						pairedItem: { item: i }
+					});
+				} else if (
+					resource === 'source' &&
+					operation === 'create' &&
+					this.getNodeParameter('waitForResult', i, false)
+				) {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					const sourceId = responseData?.id;
+
+					await waitForCompletion.call(this, returnData, {
+						path: API_ENDPOINTS.SOURCE,
+						id: sourceId,
+						itemIndex: i,
+						intervalSeconds: this.getNodeParameter('pollInterval', i, 5) as number,
+						maxWaitSeconds: this.getNodeParameter('maxWaitTime', i, 300) as number,
+						getStatus: (data) => data?.status,
+						doneStatuses: SOURCE_COMPLETED_STATUSES,
+						failedStatuses: SOURCE_FAILED_STATUSES,
+						throwOnFailure: this.getNodeParameter('onSourceFailure', i, 'error') === 'error',
+						missingIdMessage: 'Source was submitted but no ID was returned, so its result cannot be retrieved',
+						waitingFor: `source ${sourceId} to be processed`,
+						timeoutDescription: `Increase "Max Wait Time", or use "Get Source" with ID: ${sourceId} to retrieve the extracted content later.`,
+						getFailureMessage: (data) => `Source extraction failed: ${data?.error || 'Unknown error'}`,
+						formatResult: (data) => {
+							const shouldCleanTranscript = this.getNodeParameter('cleanTranscript', i, true) as boolean;
+							if (shouldCleanTranscript && data.content) {
+								data.content = cleanTranscript(data.content);
+							}
 
-				returnData.push({
-					json: responseData,
-					pairedItem: { item: i }
-				});
-			} else if (resource === 'post' && operation === 'get') {
-				const responseData = typeof response === 'string' ? JSON.parse(response) : response;
-				const status = responseData?.status;
-
-				// Add helpful hints based on post status
-				if (status === 'in-progress') {
-					if (!responseData._hint) {
-						responseData._hint = '⏳ Your post is still being processed. Check again in a moment.';
-					}
-				} else if (status === 'failed' && responseData.errorMessage) {
-					if (!responseData._hint) {
-						responseData._hint = `❌ Post failed: ${responseData.errorMessage}`;
+							addSourceStatusHint(data);
+							return data;
+						},
+						errorFields: { sourceId },
+					});
+				} else if (resource === 'source' && operation === 'create') {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+
+					// Add hint about polling for results
+					if (responseData.id && !responseData._hint) {
+						responseData._hint = `📋 Source submitted for processing. Use "Get Source" with ID: ${responseData.id} to retrieve the extracted content.`;
 					}
-				} else if (status === 'published' && responseData.publicUrl) {
-					if (!responseData._hint) {
-						responseData._hint = `✅ Post published successfully! View it at: ${responseData.publicUrl}`;
+
+					returnData.push({
+						json: responseData,
+						pairedItem: { item: i }
+					});
+				} else if (
+					resource === 'post' &&
+					(operation === 'create' || operation === 'update') &&
+					(this.getNodeParameter('options.waitUntilPublished', i, false) as boolean)
+				) {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					const postSubmissionId =
+						responseData?.postSubmissionId ??
+						(operation === 'update' ? this.getNodeParameter('postSubmissionId', i) : undefined);
+
+					// Scheduled posts will not reach a terminal status during this execution
+					const scheduledTime = requestOptions.body.scheduledTime as string | undefined;
+					const isScheduled = scheduledTime
+						? new Date(scheduledTime).getTime() > Date.now()
+						: !!requestOptions.body.useNextFreeSlot;
+
+					if (isScheduled || !postSubmissionId) {
+						returnData.push({
+							json: {
+								...responseData,
+								postSubmissionId,
+								...target,
+								status: isScheduled ? 'scheduled' : 'unknown',
+								publicUrl: null,
+								errorMessage: null,
+							},
+							pairedItem: { item: i }
+						});
+						continue;
 					}
-				}
 
-				returnData.push({
-					json: responseData,
-					pairedItem: { item: i }
-				});
-			} else {
-				returnData.push({ json: response, pairedItem: { item: i } });
+					await waitForCompletion.call(this, returnData, {
+						path: API_ENDPOINTS.POST_GET,
+						id: postSubmissionId,
+						itemIndex: i,
+						intervalSeconds: this.getNodeParameter('options.publishPollInterval', i, 10) as number,
+						maxWaitSeconds: this.getNodeParameter('options.publishMaxWaitTime', i, 300) as number,
+						getStatus: (data) => data?.status,
+						doneStatuses: POST_PUBLISHED_STATUSES,
+						failedStatuses: POST_FAILED_STATUSES,
+						// A failed post is a result with its error message, not a node error
+						throwOnFailure: false,
+						missingIdMessage: 'Post was submitted but no ID was returned, so its status cannot be checked',
+						waitingFor: `post ${postSubmissionId} to be published`,
+						timeoutDescription: `Increase "Publish Max Wait Time", or use "Get" with Post Submission ID: ${postSubmissionId} to check the status later.`,
+						getFailureMessage: (data) => `Post ${postSubmissionId} failed: ${data?.errorMessage || 'Unknown error'}`,
+						formatResult: (data) => {
+							const normalizedData = {
+								...data,
+								postSubmissionId,
+								...target,
+								status: data.status,
+								publicUrl: data.publicUrl ?? null,
+								errorMessage: data.errorMessage ?? null,
+							};
+							addPostStatusHint(normalizedData);
+							return normalizedData;
+						},
+						errorFields: { postSubmissionId, ...target },
+					});
+				} else if (resource === 'post' && operation === 'get') {
+					const responseData = typeof response === 'string' ? JSON.parse(response) : response;
+					addPostStatusHint(responseData);
+
+					returnData.push({
+						json: responseData,
+						pairedItem: { item: i }
+					});
+				} else {
+					returnData.push({ json: target ? { ...response, ...target } : response, pairedItem: { item: i } });
+				}
 			}
 		}
 
+		if (aggregatedPairedItems.length > 0) {
+			returnData.push({
+				json: { url: aggregatedMediaUrls[0], mediaUrls: aggregatedMediaUrls },
+				pairedItem: aggregatedPairedItems,
+			});
+		}
+
 		return [returnData];
 	}
 }
@@ -0,0 +1,228 @@
+import type {
+	IDataObject,
+	IPollFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	JsonObject,
+} from 'n8n-workflow';
+import { NodeConnectionType, NodeApiError } from 'n8n-workflow';
+import { API_ENDPOINTS, SOURCE_COMPLETED_STATUSES, VIDEO_DONE_STATUSES } from './Constants';
+
+interface PollEvent {
+	url: string;
+	getId: (item: IDataObject) => string | undefined;
+	matches: (item: IDataObject) => boolean;
+}
+
+// Events the trigger can emit, with the list endpoint and status check for each
+const POLL_EVENTS: Record<string, PollEvent> = {
+	postPublished: {
+		url: API_ENDPOINTS.POST_GET,
+		getId: (item) => (item.postSubmissionId ?? item.id) as string | undefined,
+		matches: (item) => item.status === 'published',
+	},
+	postFailed: {
+		url: API_ENDPOINTS.POST_GET,
+		getId: (item) => (item.postSubmissionId ?? item.id) as string | undefined,
+		matches: (item) => item.status === 'failed',
+	},
+	visualCompleted: {
+		url: API_ENDPOINTS.VIDEO_GET,
+		getId: (item) => item.id as string | undefined,
+		matches: (item) => VIDEO_DONE_STATUSES.includes(item.status as string),
+	},
+	sourceCompleted: {
+		url: API_ENDPOINTS.SOURCE,
+		getId: (item) => item.id as string | undefined,
+		matches: (item) => SOURCE_COMPLETED_STATUSES.includes(item.status as string),
+	},
+};
+
+// Number of items requested per page when listing an endpoint on each poll
+const POLL_PAGE_SIZE = 100;
+
+// Helper function to read when an item was last updated, NaN when it has no timestamp
+function getUpdatedTime(item: IDataObject): number {
+	return Date.parse((item.updatedAt ?? item.createdAt) as string);
+}
+
+/**
+ * Fetches the items of a list endpoint that were updated since the time cursor. Lists are
+ * ordered by most recent update, so paging stops at the first item older than the cursor.
+ * Without a cursor only the first page is fetched, to set the cursor.
+ */
+async function fetchUpdatedItems(
+	this: IPollFunctions,
+	url: string,
+	since: string | undefined,
+): Promise<IDataObject[]> {
+	const sinceTime = since ? Date.parse(since) : undefined;
+	const items: IDataObject[] = [];
+	let cursor: string | undefined;
+
+	do {
+		let responseData;
+		try {
+			responseData = await this.helpers.httpRequestWithAuthentication.call(this, 'blotatoApi', {
+				method: 'GET',
+				url,
+				qs: {
+					limit: POLL_PAGE_SIZE,
+					...(since ? { updatedAfter: since } : {}),
+					...(cursor ? { cursor } : {}),
+				},
+				json: true,
+			});
+		} catch (error) {
+			throw new NodeApiError(this.getNode(), error as JsonObject);
+		}
+
+		const page = (responseData?.items ?? responseData ?? []) as IDataObject[];
+		const updatedItems =
+			sinceTime === undefined ? page : page.filter((item) => !(getUpdatedTime(item) < sinceTime));
+		items.push(...updatedItems);
+
+		if (sinceTime === undefined || updatedItems.length < page.length) {
+			break;
+		}
+		cursor = responseData?.nextCursor as string | undefined;
+	} while (cursor);
+
+	return items;
+}
+
+export class BlotatoTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Blotato Trigger',
+		name: 'blotatoTrigger',
+		icon: 'file:blotato.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["events"].join(", ")}}',
+		description: 'Starts the workflow when a Blotato post, visual or source changes status',
+		defaults: {
+			name: 'Blotato Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'blotatoApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Post Failed',
+						value: 'postFailed',
+						description: 'Triggers when a post submission fails',
+					},
+					{
+						name: 'Post Published',
+						value: 'postPublished',
+						description: 'Triggers when a post submission is published',
+					},
+					{
+						name: 'Source Completed',
+						value: 'sourceCompleted',
+						description: 'Triggers when a source resolution has finished extracting content',
+					},
+					{
+						name: 'Visual Completed',
+						value: 'visualCompleted',
+						description:
+							'Triggers when a visual (video, carousel, or infographic) has finished rendering',
+					},
+				],
+				default: ['postFailed', 'postPublished'],
+				required: true,
+				description: 'The events to listen to',
+			},
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const events = this.getNodeParameter('events', []) as string[];
+		const staticData = this.getWorkflowStaticData('node') as {
+			emittedIds?: Record<string, string[]>;
+			updatedSince?: Record<string, string>;
+		};
+		const isManual = this.getMode() === 'manual';
+
+		const emittedIds = { ...staticData.emittedIds };
+		const updatedSince = { ...staticData.updatedSince };
+
+		const credentials = await this.getCredentials('blotatoApi');
+
+		// Post events share one endpoint, so fetch each list only once per poll
+		const listCache: Record<string, IDataObject[]> = {};
+		const returnData: INodeExecutionData[] = [];
+
+		for (const event of events) {
+			const pollEvent = POLL_EVENTS[event];
+			if (!pollEvent) {
+				continue;
+			}
+
+			// Without a time cursor this is the first poll of the list, which only sets the cursor,
+			// so items that existed before the workflow was activated are not emitted. Read the cursor
+			// from before this poll, as post events share it.
+			const since = staticData.updatedSince?.[pollEvent.url];
+			const sinceTime = since ? Date.parse(since) : undefined;
+
+			if (!listCache[pollEvent.url]) {
+				listCache[pollEvent.url] = await fetchUpdatedItems.call(
+					this,
+					`${credentials.server}${pollEvent.url}`,
+					since,
+				);
+			}
+			const items = listCache[pollEvent.url];
+
+			const seenIds = new Set(emittedIds[event] ?? []);
+			for (const item of items.filter(pollEvent.matches)) {
+				const id = pollEvent.getId(item);
+				if (!id || seenIds.has(id)) {
+					continue;
+				}
+
+				seenIds.add(id);
+
+				if (sinceTime !== undefined || isManual) {
+					returnData.push({ json: { event, ...item } });
+				}
+			}
+
+			// Move the cursor to the newest update and only keep the IDs at the cursor, since older
+			// items are not fetched again
+			const newestTime = Math.max(sinceTime ?? 0, ...items.map(getUpdatedTime).filter(isFinite));
+			if (newestTime > 0) {
+				updatedSince[pollEvent.url] = new Date(newestTime).toISOString();
+			}
+			emittedIds[event] = items
+				.filter((item) => seenIds.has(pollEvent.getId(item) as string))
+				.filter((item) => !(getUpdatedTime(item) < newestTime))
+				.map((item) => pollEvent.getId(item) as string);
+		}
+
+		// Manual executions should not change what the active workflow has already emitted
+		if (!isManual) {
+			staticData.emittedIds = emittedIds;
+			staticData.updatedSince = updatedSince;
+		}
+
+		if (returnData.length === 0) {
+			return null;
+		}
+
+		// When testing the trigger, only return the most recent item
+		return [isManual ? returnData.slice(0, 1) : returnData];
+	}
+}
@@ -0,0 +1,291 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type {
+	IDataObject,
+	IHookFunctions,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+	JsonObject,
+} from 'n8n-workflow';
+import { NodeConnectionType, NodeApiError, NodeOperationError } from 'n8n-workflow';
+import { API_ENDPOINTS, PLATFORM_OPTIONS } from './Constants';
+
+// Header carrying the hex HMAC-SHA256 signature of the raw request body
+const SIGNATURE_HEADER = 'x-blotato-signature';
+
+// Helper function to verify a webhook signature against the raw request body
+export function verifyWebhookSignature(
+	rawBody: Buffer | string | undefined,
+	signature: string | undefined,
+	secret: string,
+): boolean {
+	if (!rawBody || !signature) {
+		return false;
+	}
+
+	const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+	// Accept both "<hex>" and "sha256=<hex>" formats
+	const received = signature.replace(/^sha256=/, '');
+
+	const expectedBuffer = Buffer.from(expected, 'utf8');
+	const receivedBuffer = Buffer.from(received, 'utf8');
+
+	return (
+		expectedBuffer.length === receivedBuffer.length &&
+		timingSafeEqual(expectedBuffer, receivedBuffer)
+	);
+}
+
+export class BlotatoWebhookTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Blotato Webhook Trigger',
+		name: 'blotatoWebhookTrigger',
+		icon: 'file:blotato.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["events"].join(", ")}}',
+		description: 'Starts the workflow when Blotato sends a post, visual or source event',
+		defaults: {
+			name: 'Blotato Webhook Trigger',
+		},
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'blotatoApi',
+				required: true,
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Post Failed',
+						value: 'post.failed',
+						description: 'Triggers when a post submission fails',
+					},
+					{
+						name: 'Post Published',
+						value: 'post.published',
+						description: 'Triggers when a post submission is published',
+					},
+					{
+						name: 'Source Completed',
+						value: 'source.completed',
+						description: 'Triggers when a source resolution has finished extracting content',
+					},
+					{
+						name: 'Source Failed',
+						value: 'source.failed',
+						description: 'Triggers when a source resolution fails',
+					},
+					{
+						name: 'Visual Completed',
+						value: 'visual.completed',
+						description: 'Triggers when a visual has finished rendering',
+					},
+					{
+						name: 'Visual Failed',
+						value: 'visual.failed',
+						description: 'Triggers when a visual fails to render',
+					},
+				],
+				default: ['post.failed', 'post.published'],
+				required: true,
+				description: 'The events to listen to',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Platforms',
+						name: 'platforms',
+						type: 'multiOptions',
+						options: PLATFORM_OPTIONS,
+						default: [],
+						description:
+							'Only trigger for post events on these platforms. Leave empty for all platforms.',
+					},
+				],
+			},
+		],
+	};
+
+	webhookMethods = {
+		default: {
+			async checkExists(this: IHookFunctions): Promise<boolean> {
+				const webhookUrl = this.getNodeWebhookUrl('default');
+				const webhookData = this.getWorkflowStaticData('node');
+				const credentials = await this.getCredentials('blotatoApi');
+
+				let responseData;
+				try {
+					responseData = await this.helpers.httpRequestWithAuthentication.call(this, 'blotatoApi', {
+						method: 'GET',
+						url: `${credentials.server}${API_ENDPOINTS.WEBHOOKS}`,
+						json: true,
+					});
+				} catch (error) {
+					throw new NodeApiError(this.getNode(), error as JsonObject);
+				}
+
+				const webhooks = (responseData?.items ?? responseData ?? []) as IDataObject[];
+				const existing = webhooks.find((webhook) => webhook.url === webhookUrl);
+
+				if (!existing) {
+					delete webhookData.webhookId;
+					return false;
+				}
+
+				// A registration for other events is removed, so create() subscribes the selected events
+				const events = this.getNodeParameter('events', []) as string[];
+				const registeredEvents = (existing.events ?? []) as string[];
+				const hasSameEvents =
+					events.length === registeredEvents.length &&
+					events.every((event) => registeredEvents.includes(event));
+
+				if (!hasSameEvents) {
+					try {
+						await this.helpers.httpRequestWithAuthentication.call(this, 'blotatoApi', {
+							method: 'DELETE',
+							url: `${credentials.server}${API_ENDPOINTS.WEBHOOKS}/${existing.id}`,
+							json: true,
+						});
+					} catch (error) {
+						throw new NodeApiError(this.getNode(), error as JsonObject);
+					}
+
+					delete webhookData.webhookId;
+					return false;
+				}
+
+				webhookData.webhookId = existing.id as string;
+				return true;
+			},
+
+			async create(this: IHookFunctions): Promise<boolean> {
+				const webhookUrl = this.getNodeWebhookUrl('default');
+				const webhookData = this.getWorkflowStaticData('node');
+				const events = this.getNodeParameter('events', []) as string[];
+				const credentials = await this.getCredentials('blotatoApi');
+
+				// Without a secret incoming payloads cannot be verified, so do not register the webhook
+				if (!credentials.webhookSecret) {
+					throw new NodeOperationError(
+						this.getNode(),
+						'The Blotato credential has no Webhook Signing Secret',
+						{
+							description:
+								'Set the Webhook Signing Secret on the Blotato API credential, so incoming events can be verified',
+						},
+					);
+				}
+
+				let responseData;
+				try {
+					responseData = await this.helpers.httpRequestWithAuthentication.call(this, 'blotatoApi', {
+						method: 'POST',
+						url: `${credentials.server}${API_ENDPOINTS.WEBHOOKS}`,
+						body: {
+							url: webhookUrl,
+							events,
+						},
+						json: true,
+					});
+				} catch (error) {
+					throw new NodeApiError(this.getNode(), error as JsonObject);
+				}
+
+				const webhookId = responseData?.item?.id ?? responseData?.id;
+				if (!webhookId) {
+					return false;
+				}
+
+				webhookData.webhookId = webhookId as string;
+				return true;
+			},
+
+			async delete(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				if (!webhookData.webhookId) {
+					return true;
+				}
+
+				const credentials = await this.getCredentials('blotatoApi');
+
+				try {
+					await this.helpers.httpRequestWithAuthentication.call(this, 'blotatoApi', {
+						method: 'DELETE',
+						url: `${credentials.server}${API_ENDPOINTS.WEBHOOKS}/${webhookData.webhookId}`,
+						json: true,
+					});
+				} catch (error) {
+					return false;
+				}
+
+				delete webhookData.webhookId;
+				return true;
+			},
+		},
+	};
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const credentials = await this.getCredentials('blotatoApi');
+		const secret = credentials.webhookSecret as string | undefined;
+
+		// Reject payloads that were not signed with the credential's signing secret. Without a
+		// secret no payload can be verified, so every request is rejected.
+		const signature = this.getHeaderData()[SIGNATURE_HEADER] as string | undefined;
+		const { rawBody } = this.getRequestObject();
+
+		if (!secret || !verifyWebhookSignature(rawBody, signature, secret)) {
+			const res = this.getResponseObject();
+			res
+				.status(401)
+				.json({
+					message: secret ? 'Invalid webhook signature' : 'No webhook signing secret configured',
+				})
+				.end();
+			return { noWebhookResponse: true };
+		}
+
+		const body = this.getBodyData();
+		const events = this.getNodeParameter('events', []) as string[];
+		const options = this.getNodeParameter('options', {}) as { platforms?: string[] };
+
+		// Acknowledge events that are not selected without starting the workflow
+		if (!events.includes(body.event as string)) {
+			return {};
+		}
+
+		const data = (body.data ?? {}) as IDataObject;
+		const platform = (data.platform ?? data.targetType) as string | undefined;
+		if (
+			options.platforms?.length &&
+			(body.event as string).startsWith('post.') &&
+			!options.platforms.includes(platform as string)
+		) {
+			return {};
+		}
+
+		return {
+			workflowData: [this.helpers.returnJsonArray(body)],
+		};
+	}
+}
@@ -0,0 +1,47 @@
+// Constants shared by the Blotato nodes
+
+// API endpoint constants
+export const API_ENDPOINTS = {
+	VIDEO_TEMPLATES: '/v2/videos/templates',
+	VIDEO_FROM_TEMPLATES: '/v2/videos/from-templates',
+	VIDEO_GET: '/v2/videos/creations',
+	VIDEO_DELETE: '/v2/videos',
+	POST_GET: '/v2/posts',
+	SOURCE: '/v2/source-resolutions-v3',
+	WEBHOOKS: '/v2/webhooks',
+	MEDIA: '/v2/media',
+	MEDIA_UPLOADS: '/v2/media/uploads',
+	ACCOUNTS: '/v2/users/me/accounts',
+};
+
+// Maximum size of a binary media upload, as documented by Blotato. Larger files have to be
+// uploaded from a URL.
+export const BINARY_UPLOAD_MAX_SIZE_MB = 60;
+export const BINARY_UPLOAD_MAX_SIZE_BYTES = BINARY_UPLOAD_MAX_SIZE_MB * 1024 * 1024;
+
+// Visual statuses returned by the Get Visual endpoint
+export const VIDEO_IN_PROGRESS_STATUSES = ['generating-script', 'script-ready', 'queueing'];
+export const VIDEO_DONE_STATUSES = ['done'];
+// Visuals report failures with a status per step, which all contain "failed"
+export const VIDEO_FAILED_STATUSES = ['failed'];
+
+// Source resolution statuses returned by the Get Source endpoint
+export const SOURCE_COMPLETED_STATUSES = ['completed', 'success'];
+export const SOURCE_FAILED_STATUSES = ['failed'];
+
+// Post submission statuses returned by the Get Post endpoint
+export const POST_PUBLISHED_STATUSES = ['published'];
+export const POST_FAILED_STATUSES = ['failed'];
+
+// Platforms that posts can be published to
+export const PLATFORM_OPTIONS = [
+	{ name: 'Bluesky', value: 'bluesky' },
+	{ name: 'Facebook', value: 'facebook' },
+	{ name: 'Instagram', value: 'instagram' },
+	{ name: 'Linkedin', value: 'linkedin' },
+	{ name: 'Pinterest', value: 'pinterest' },
+	{ name: 'Threads', value: 'threads' },
+	{ name: 'Tiktok', value: 'tiktok' },
+	{ name: 'Twitter', value: 'twitter' },
+	{ name: 'Youtube', value: 'youtube' },
+];
@@ -0,0 +1,342 @@
+import type { IDataObject, IExecuteFunctions, IHttpRequestOptions, JsonObject } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
+import {
+	API_ENDPOINTS,
+	BINARY_UPLOAD_MAX_SIZE_BYTES,
+	BINARY_UPLOAD_MAX_SIZE_MB,
+} from './Constants';
+
+// Retry defaults for rate limited or temporarily unavailable requests
+export const RETRY_DEFAULT_MAX_RETRIES = 3;
+export const RETRY_DEFAULT_MAX_WAIT_SECONDS = 60;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// 429 means the request was not processed, so it is safe to retry for any method
+const RETRYABLE_STATUS_CODES_ANY_METHOD = [429];
+// Gateway errors may happen after the request was processed, so only retry idempotent methods
+const RETRYABLE_STATUS_CODES_IDEMPOTENT = [502, 503, 504];
+// Connection refused means the request never reached the server
+const RETRYABLE_ERROR_CODES_ANY_METHOD = ['ECONNREFUSED'];
+const RETRYABLE_ERROR_CODES_IDEMPOTENT = [
+	'ECONNRESET',
+	'ETIMEDOUT',
+	'EPIPE',
+	'EAI_AGAIN',
+	'ECONNABORTED',
+];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+interface RetryOptions {
+	maxRetries?: number;
+	maxRetryWait?: number;
+}
+
+// Helper function to read the HTTP status code from axios-style and NodeApiError-style errors
+export function getErrorStatusCode(error: any): number | undefined {
+	const statusCode =
+		error?.response?.status ??
+		error?.cause?.response?.status ??
+		error?.httpCode ??
+		error?.statusCode;
+	return statusCode !== undefined ? Number(statusCode) : undefined;
+}
+
+// Helper function to decide whether a failed request is safe to retry
+function isRetryableError(error: any, method: string): boolean {
+	const isIdempotent = IDEMPOTENT_METHODS.includes(method.toUpperCase());
+	const statusCode = getErrorStatusCode(error);
+
+	if (statusCode !== undefined) {
+		return (
+			RETRYABLE_STATUS_CODES_ANY_METHOD.includes(statusCode) ||
+			(isIdempotent && RETRYABLE_STATUS_CODES_IDEMPOTENT.includes(statusCode))
+		);
+	}
+
+	const errorCode = error?.code ?? error?.cause?.code;
+	return (
+		RETRYABLE_ERROR_CODES_ANY_METHOD.includes(errorCode) ||
+		(isIdempotent && RETRYABLE_ERROR_CODES_IDEMPOTENT.includes(errorCode))
+	);
+}
+
+// Helper function to parse the Retry-After header (seconds or HTTP date) into milliseconds
+function getRetryAfterMs(error: any): number | undefined {
+	const headers = error?.response?.headers ?? error?.cause?.response?.headers;
+	const retryAfter = headers?.['retry-after'];
+	if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+		return undefined;
+	}
+
+	const seconds = Number(retryAfter);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(retryAfter);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sends an authenticated Blotato request, retrying rate limited (429) and temporarily
+ * unavailable (502/503/504, network reset) requests with exponential backoff and jitter.
+ * Retry-After is respected; if it asks for longer than the max wait, the error is thrown.
+ */
+export async function requestWithRetry(
+	this: IExecuteFunctions,
+	requestOptions: IHttpRequestOptions,
+	itemIndex: number,
+): Promise<any> {
+	const retryOptions = this.getNodeParameter('requestOptions', itemIndex, {}) as RetryOptions;
+	const maxRetries = retryOptions.maxRetries ?? RETRY_DEFAULT_MAX_RETRIES;
+	const maxWaitMs = (retryOptions.maxRetryWait ?? RETRY_DEFAULT_MAX_WAIT_SECONDS) * 1000;
+	const method = requestOptions.method ?? 'GET';
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await this.helpers.httpRequestWithAuthentication.call(
+				this,
+				'blotatoApi',
+				requestOptions,
+			);
+		} catch (error) {
+			if (attempt >= maxRetries || !isRetryableError(error, method)) {
+				throw error;
+			}
+
+			let delayMs = getRetryAfterMs(error);
+			if (delayMs === undefined) {
+				// Exponential backoff with jitter between 50% and 100% of the delay
+				const backoffMs = Math.min(maxWaitMs, RETRY_BASE_DELAY_MS * 2 ** attempt);
+				delayMs = Math.round(backoffMs * (0.5 + Math.random() * 0.5));
+			} else if (delayMs > maxWaitMs) {
+				throw error;
+			}
+
+			this.logger.warn(
+				`Blotato request ${method} ${requestOptions.url} failed (${getErrorStatusCode(error) ?? error?.code ?? 'unknown error'}), retrying in ${delayMs}ms (attempt ${attempt + 1} of ${maxRetries})`,
+			);
+			await sleep(delayMs);
+		}
+	}
+}
+
+// Number of items requested per page when listing resources
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Sends a list request and follows Blotato's `nextCursor` pagination until all items were
+ * fetched, or until `limit` items were collected when `returnAll` is false.
+ */
+export async function requestAllItems(
+	this: IExecuteFunctions,
+	requestOptions: IHttpRequestOptions,
+	itemIndex: number,
+	pagination: { returnAll: boolean; limit: number },
+): Promise<IDataObject[]> {
+	const items: IDataObject[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const pageSize = pagination.returnAll
+			? LIST_PAGE_SIZE
+			: Math.min(LIST_PAGE_SIZE, pagination.limit - items.length);
+
+		const responseData = await requestWithRetry.call(
+			this,
+			{
+				...requestOptions,
+				qs: {
+					...requestOptions.qs,
+					limit: pageSize,
+					...(cursor ? { cursor } : {}),
+				},
+			},
+			itemIndex,
+		);
+
+		items.push(...((responseData?.items ?? []) as IDataObject[]));
+		cursor = responseData?.nextCursor as string | undefined;
+	} while (cursor && (pagination.returnAll || items.length < pagination.limit));
+
+	return pagination.returnAll ? items : items.slice(0, pagination.limit);
+}
+
+// Blotato's documented request limits per resource, used to pace requests within one execution
+export const DEFAULT_RATE_LIMITS_PER_MINUTE: Record<string, number> = {
+	media: 10,
+	post: 30,
+};
+
+// Length of the window that the per-minute rate limits apply to
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Creates a sliding window rate limiter keyed by resource. It remembers when each request of
+ * the last minute was sent, and waits until the oldest one leaves the window once `limit`
+ * requests were sent, so no minute ever has more than `limit` requests. Keys without a limit
+ * (or with a limit of 0) are not throttled. The clock can be replaced for testing.
+ */
+export function createRateLimiter(
+	limitsPerMinute: Record<string, number>,
+	clock: { now: () => number; sleep: (ms: number) => Promise<void> } = { now: Date.now, sleep },
+) {
+	const sentAt: Record<string, number[]> = {};
+
+	return {
+		async acquire(key: string): Promise<void> {
+			const limit = limitsPerMinute[key];
+			if (!limit || limit <= 0) {
+				return;
+			}
+
+			const timestamps = (sentAt[key] ??= []);
+			for (;;) {
+				const now = clock.now();
+				while (timestamps.length > 0 && timestamps[0] <= now - RATE_LIMIT_WINDOW_MS) {
+					timestamps.shift();
+				}
+
+				if (timestamps.length < limit) {
+					timestamps.push(now);
+					return;
+				}
+
+				await clock.sleep(timestamps[0] + RATE_LIMIT_WINDOW_MS - now);
+			}
+		},
+	};
+}
+
+/**
+ * Resolves a comma-separated list of binary property names for an item. Entries may use
+ * "*" as a wildcard (e.g. "data*"), whose matches are sorted in natural order so that
+ * "data2" comes before "data10". Returns the names in order without duplicates.
+ */
+export function resolveBinaryPropertyNames(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyNames: string,
+): string[] {
+	const availableNames = Object.keys(this.getInputData()[itemIndex]?.binary ?? {});
+	const resolvedNames: string[] = [];
+
+	const patterns = binaryPropertyNames
+		.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean);
+
+	for (const pattern of patterns) {
+		if (!pattern.includes('*')) {
+			resolvedNames.push(pattern);
+			continue;
+		}
+
+		const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+		const regex = new RegExp(`^${escaped}$`);
+		const matches = availableNames
+			.filter((name) => regex.test(name))
+			.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+		if (matches.length === 0) {
+			throw new NodeOperationError(this.getNode(), `No binary property matches "${pattern}"`, {
+				itemIndex,
+			});
+		}
+
+		resolvedNames.push(...matches);
+	}
+
+	return Array.from(new Set(resolvedNames));
+}
+
+/**
+ * Uploads one binary property of an item to Blotato in two steps: a presigned upload URL
+ * is requested from Blotato, then the file is sent there with a PUT. Files stored in n8n's
+ * binary data store are streamed, so large videos are never base64 encoded or fully
+ * buffered. Returns the public URL of the uploaded media.
+ */
+export async function uploadBinaryMedia(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyName: string,
+	rateLimiter: ReturnType<typeof createRateLimiter>,
+): Promise<string> {
+	const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	const mimeType = binaryData.mimeType || 'application/octet-stream';
+
+	// Binary data in filesystem or S3 mode has an ID and can be streamed, otherwise it is in memory.
+	// The stream is only opened right before the upload, so no stream is left open on errors.
+	let fileSize: number;
+	let uploadBody: any;
+	if (binaryData.id) {
+		fileSize = (await this.helpers.getBinaryMetadata(binaryData.id)).fileSize;
+	} else {
+		uploadBody = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+		fileSize = uploadBody.length;
+	}
+
+	if (fileSize > BINARY_UPLOAD_MAX_SIZE_BYTES) {
+		const sizeMB = (fileSize / (1024 * 1024)).toFixed(2);
+		throw new NodeOperationError(
+			this.getNode(),
+			`File size (${sizeMB}MB) of binary property "${binaryPropertyName}" exceeds the ${BINARY_UPLOAD_MAX_SIZE_MB}MB limit`,
+			{ itemIndex, description: 'Upload larger files from a URL instead' },
+		);
+	}
+
+	const credentials = await this.getCredentials('blotatoApi');
+
+	let uploadTarget;
+	try {
+		await rateLimiter.acquire('media');
+		uploadTarget = await requestWithRetry.call(
+			this,
+			{
+				method: 'POST',
+				url: `${credentials.server}${API_ENDPOINTS.MEDIA_UPLOADS}`,
+				body: {
+					filename: binaryData.fileName ?? binaryPropertyName,
+				},
+				json: true,
+			},
+			itemIndex,
+		);
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex });
+	}
+
+	const presignedUrl = uploadTarget?.presignedUrl as string | undefined;
+	const publicUrl = uploadTarget?.publicUrl as string | undefined;
+	if (!presignedUrl || !publicUrl) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Blotato did not return an upload URL for the binary file',
+			{ itemIndex },
+		);
+	}
+
+	// The presigned URL is already authorized, so it is sent without the Blotato credentials
+	try {
+		if (binaryData.id) {
+			uploadBody = await this.helpers.getBinaryStream(binaryData.id);
+		}
+		await this.helpers.httpRequest({
+			method: 'PUT',
+			url: presignedUrl,
+			body: uploadBody,
+			headers: {
+				'Content-Type': mimeType,
+				'Content-Length': fileSize,
+			},
+		});
+	} catch (error) {
+		uploadBody?.destroy?.();
+		throw new NodeApiError(this.getNode(), error as JsonObject, {
+			itemIndex,
+			message: `Uploading binary property "${binaryPropertyName}" failed`,
+		});
+	}
+
+	return publicUrl;
+}
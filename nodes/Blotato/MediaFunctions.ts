@@ -0,0 +1,128 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+
+export type MediaType = 'image' | 'video' | 'unknown';
+
+export interface MediaRule {
+	// Maximum number of media files in a single post
+	maxItems: number;
+	// Maximum number of images / videos in a single post (0 means the type is not accepted)
+	maxImages: number;
+	maxVideos: number;
+	// Whether images and videos can be combined in one post
+	allowMixed: boolean;
+}
+
+// Media constraints per platform for a single post (or a single post of a thread)
+export const PLATFORM_MEDIA_RULES: Record<string, MediaRule> = {
+	bluesky: { maxItems: 4, maxImages: 4, maxVideos: 1, allowMixed: false },
+	facebook: { maxItems: 10, maxImages: 10, maxVideos: 1, allowMixed: false },
+	instagram: { maxItems: 10, maxImages: 10, maxVideos: 10, allowMixed: true },
+	linkedin: { maxItems: 20, maxImages: 20, maxVideos: 1, allowMixed: false },
+	pinterest: { maxItems: 5, maxImages: 5, maxVideos: 0, allowMixed: false },
+	threads: { maxItems: 20, maxImages: 20, maxVideos: 20, allowMixed: true },
+	tiktok: { maxItems: 35, maxImages: 35, maxVideos: 1, allowMixed: false },
+	twitter: { maxItems: 4, maxImages: 4, maxVideos: 1, allowMixed: false },
+	youtube: { maxItems: 1, maxImages: 0, maxVideos: 1, allowMixed: false },
+};
+
+const IMAGE_EXTENSIONS = [
+	'jpg',
+	'jpeg',
+	'png',
+	'gif',
+	'webp',
+	'heic',
+	'heif',
+	'bmp',
+	'tif',
+	'tiff',
+];
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', 'webm', 'avi', 'mkv', 'mpeg', 'mpg', '3gp'];
+
+/**
+ * Returns the media type of a URL based on its file extension, ignoring query strings
+ * and fragments. Returns "unknown" when the extension is missing or not recognized.
+ */
+export function getMediaTypeFromUrl(url: string): MediaType {
+	let pathname = url;
+	try {
+		pathname = new URL(url).pathname;
+	} catch (error) {
+		// Not an absolute URL, use it as is
+	}
+
+	const extension = pathname.split('.').pop()?.toLowerCase() ?? '';
+	if (IMAGE_EXTENSIONS.includes(extension)) {
+		return 'image';
+	}
+	if (VIDEO_EXTENSIONS.includes(extension)) {
+		return 'video';
+	}
+	return 'unknown';
+}
+
+/**
+ * Returns the media type of a URL from the Content-Type of a HEAD request.
+ * Returns "unknown" when the request fails or the Content-Type is not an image or video.
+ */
+export async function getMediaTypeFromHeadRequest(
+	this: IExecuteFunctions,
+	url: string,
+): Promise<MediaType> {
+	try {
+		const response = await this.helpers.httpRequest({
+			method: 'HEAD',
+			url,
+			returnFullResponse: true,
+		});
+		const contentType = String(response.headers?.['content-type'] ?? '').toLowerCase();
+		if (contentType.startsWith('image/')) {
+			return 'image';
+		}
+		if (contentType.startsWith('video/')) {
+			return 'video';
+		}
+	} catch (error) {
+		// Some hosts reject HEAD requests, the URL is then left for Blotato to validate
+	}
+	return 'unknown';
+}
+
+/**
+ * Checks the media of one post against a platform's rules and returns an error message
+ * naming the offending URL, or undefined when the media is valid. Media of unknown type
+ * (e.g. Google Drive links or URLs without a file extension) passes, and is left for
+ * Blotato to validate.
+ */
+export function checkMediaRule(
+	allMedia: Array<{ url: string; type: MediaType }>,
+	rule: MediaRule,
+	platformName: string,
+): string | undefined {
+	const media = allMedia.filter((item) => item.type !== 'unknown');
+
+	if (media.length > rule.maxItems) {
+		return `${platformName} accepts at most ${rule.maxItems} media file(s) per post, but ${media.length} were given. First extra file: "${media[rule.maxItems].url}"`;
+	}
+
+	const images = media.filter((item) => item.type === 'image');
+	const videos = media.filter((item) => item.type === 'video');
+
+	if (rule.maxImages === 0 && images.length > 0) {
+		return `${platformName} only accepts videos, but "${images[0].url}" is an image`;
+	}
+	if (rule.maxVideos === 0 && videos.length > 0) {
+		return `${platformName} only accepts images, but "${videos[0].url}" is a video`;
+	}
+	if (!rule.allowMixed && images.length > 0 && videos.length > 0) {
+		return `${platformName} does not support mixing images and videos in one post, but "${videos[0].url}" is a video and "${images[0].url}" is an image`;
+	}
+	if (images.length > rule.maxImages) {
+		return `${platformName} accepts at most ${rule.maxImages} image(s) per post. First extra image: "${images[rule.maxImages].url}"`;
+	}
+	if (videos.length > rule.maxVideos) {
+		return `${platformName} accepts at most ${rule.maxVideos} video(s) per post. First extra video: "${videos[rule.maxVideos].url}"`;
+	}
+
+	return undefined;
+}
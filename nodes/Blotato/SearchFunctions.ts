@@ -1,9 +1,14 @@
+import { createHash } from 'crypto';
 import type {
+	IDataObject,
 	ILoadOptionsFunctions,
 	INodeListSearchItems,
 	INodeListSearchResult,
-	IHttpRequestOptions,
 } from 'n8n-workflow';
+import { API_ENDPOINTS } from './Constants';
+import { getErrorStatusCode } from './GenericFunctions';
+import type { TemplateInput } from './TemplateFunctions';
+import { isTemplateInputRequired } from './TemplateFunctions';
 
 type AccountSearchItem = {
 	id: string;
@@ -17,39 +22,143 @@ type TemplateSearchItem = {
 	name: string;
 	description: string;
 	type: string;
-	inputs?: Record<string, any>;
+	inputs?: TemplateInput[];
 };
 
-export async function getAccounts(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
-	const platform = this.getNodeParameter('platform', 0) as string;
+type ListPage = {
+	items: any[];
+	nextCursor?: string;
+};
+
+// Dropdowns are opened and searched often, so list pages are cached per credential for a short time
+const LIST_SEARCH_CACHE_TTL_MS = 60 * 1000;
+const listSearchCache = new Map<string, { expiresAt: number; page: ListPage }>();
+
+// Helper function to fetch one page of a list endpoint, cached per credential, path and query
+async function getListPage(
+	this: ILoadOptionsFunctions,
+	path: string,
+	qs: IDataObject,
+	paginationToken?: string,
+): Promise<ListPage> {
 	const credentials = await this.getCredentials('blotatoApi');
+	const query = { ...qs, ...(paginationToken ? { cursor: paginationToken } : {}) };
+
+	// The API key is hashed so it is not kept in memory as part of the cache key
+	const cacheKey = [
+		createHash('sha256').update(String(credentials.apiKey ?? '')).digest('hex'),
+		credentials.server,
+		path,
+		JSON.stringify(query),
+	].join('|');
+
+	const now = Date.now();
+	const cached = listSearchCache.get(cacheKey);
+	if (cached && cached.expiresAt > now) {
+		return cached.page;
+	}
 
-	const options: IHttpRequestOptions = {
+	const responseData = await this.helpers.httpRequestWithAuthentication.call(this, 'blotatoApi', {
 		method: 'GET',
-		url: `${credentials.server}/v2/users/me/accounts`,
-		qs: { platform },
+		url: `${credentials.server}${path}`,
+		qs: query,
+		json: true,
+	});
+
+	const page: ListPage = {
+		items: responseData?.items ?? responseData ?? [],
+		nextCursor: responseData?.nextCursor,
+	};
+
+	// Drop expired entries so the cache does not grow with every search
+	for (const [key, entry] of listSearchCache) {
+		if (entry.expiresAt <= now) {
+			listSearchCache.delete(key);
+		}
+	}
+	listSearchCache.set(cacheKey, { expiresAt: now + LIST_SEARCH_CACHE_TTL_MS, page });
+
+	return page;
+}
+
+// Helper function to fetch the next page with items matching the search. A search filters on
+// the client, so pages without matches are skipped, otherwise the dropdown would show an empty
+// page and stop loading more results.
+async function getMatchingListPage(
+	this: ILoadOptionsFunctions,
+	path: string,
+	qs: IDataObject,
+	paginationToken: string | undefined,
+	matches: (item: any) => boolean,
+): Promise<ListPage> {
+	let cursor = paginationToken;
+	for (;;) {
+		const page = await getListPage.call(this, path, qs, cursor);
+		const items = page.items.filter(matches);
+		if (items.length > 0 || !page.nextCursor) {
+			return { items, nextCursor: page.nextCursor };
+		}
+		cursor = page.nextCursor;
+	}
+}
+
+// Helper function to check whether any of the values contains the search filter
+function matchesFilter(filter: string | undefined, ...values: Array<string | undefined>): boolean {
+	if (!filter) {
+		return true;
+	}
+	const search = filter.toLowerCase();
+	return values.some((value) => value?.toLowerCase().includes(search));
+}
+
+// Helper function to show a request error as an entry in the dropdown instead of an empty list
+function getErrorResult(error: unknown): INodeListSearchResult {
+	const statusCode = getErrorStatusCode(error);
+	const message =
+		statusCode === 401 || statusCode === 403
+			? 'Credential invalid - check the API key of your Blotato credential'
+			: 'Blotato API unreachable - try again later';
+
+	return {
+		results: [
+			{
+				// used for displaying a message in the dropdown
+				// eslint-disable-next-line n8n-nodes-base/node-param-display-name-miscased
+				name: message,
+				value: '',
+			},
+		],
 	};
+}
 
-	let responseData;
+export async function getAccounts(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const platform = this.getNodeParameter('platform', 0) as string;
+	const credentials = await this.getCredentials('blotatoApi');
+
+	let page;
 	try {
-		responseData = await this.helpers.httpRequestWithAuthentication.call(
+		page = await getMatchingListPage.call(
 			this,
-			'blotatoApi',
-			options,
+			API_ENDPOINTS.ACCOUNTS,
+			{ platform },
+			paginationToken,
+			(item: AccountSearchItem) => matchesFilter(filter, item.fullname, item.username),
 		);
 	} catch (error) {
-		return { results: [] };
+		return getErrorResult(error);
 	}
 
-	const results: INodeListSearchItems[] = responseData.items.map(
-		(item: AccountSearchItem) => ({
-			name: item.fullname || item.username,
-			value: item.id,
-			url: `${credentials.server}/v2/accounts/${item.id}`,
-		}),
-	);
+	const results: INodeListSearchItems[] = (page.items as AccountSearchItem[]).map((item) => ({
+		name: item.fullname || item.username,
+		value: item.id,
+		url: `${credentials.server}/v2/accounts/${item.id}`,
+	}));
 
-	return { results };
+	return { results, paginationToken: page.nextCursor };
 }
 
 type SubaccountSearchItem = {
@@ -58,7 +167,11 @@ type SubaccountSearchItem = {
 	name: string;
 };
 
-export async function getSubaccounts(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
+export async function getSubaccounts(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
 	const platform = this.getNodeParameter('platform', 0) as string;
 
 	// Check if account is selected
@@ -81,34 +194,26 @@ export async function getSubaccounts(this: ILoadOptionsFunctions): Promise<INode
 
 		const credentials = await this.getCredentials('blotatoApi');
 
-		const options: IHttpRequestOptions = {
-			method: 'GET',
-			url: `${credentials.server}/v2/users/me/accounts/${accountId}/subaccounts`,
-			qs: { platform },
-		};
-
-		let responseData;
+		let page;
 		try {
-			responseData = await this.helpers.httpRequestWithAuthentication.call(
+			page = await getMatchingListPage.call(
 				this,
-				'blotatoApi',
-				options,
+				`${API_ENDPOINTS.ACCOUNTS}/${accountId}/subaccounts`,
+				{ platform },
+				paginationToken,
+				(item: SubaccountSearchItem) => matchesFilter(filter, item.name),
 			);
 		} catch (error) {
-			// For list search functions, return empty results on error
-			// This prevents blocking the UI when credentials are invalid
-			return { results: [] };
+			return getErrorResult(error);
 		}
 
-		const results: INodeListSearchItems[] = responseData.items.map(
-			(item: SubaccountSearchItem) => ({
-				name: item.name,
-				value: item.id,
-				url: `${credentials.server}/v2/accounts/${item.accountId}/subaccounts/${item.id}`,
-			}),
-		);
+		const results: INodeListSearchItems[] = (page.items as SubaccountSearchItem[]).map((item) => ({
+			name: item.name,
+			value: item.id,
+			url: `${credentials.server}/v2/accounts/${item.accountId}/subaccounts/${item.id}`,
+		}));
 
-		return { results };
+		return { results, paginationToken: page.nextCursor };
 	} catch (error) {
 		// Return helpful message if there's an error
 		return {
@@ -124,34 +229,65 @@ export async function getSubaccounts(this: ILoadOptionsFunctions): Promise<INode
 	}
 }
 
-export async function getTemplates(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
-	const credentials = await this.getCredentials('blotatoApi');
+export async function getPinterestBoards(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	// Pinterest boards are the subaccounts of a Pinterest account
+	return await getSubaccounts.call(this, filter, paginationToken);
+}
 
-	const options: IHttpRequestOptions = {
-		method: 'GET',
-		url: `${credentials.server}/v2/videos/templates`,
-	};
+export async function getTemplates(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const templateType = (this.getNodeParameter('templateType', '') as string).toLowerCase();
 
-	let responseData;
+	// All pages are fetched, so the templates can be grouped by type across the whole list
+	const templates: TemplateSearchItem[] = [];
 	try {
-		responseData = await this.helpers.httpRequestWithAuthentication.call(
-			this,
-			'blotatoApi',
-			options,
-		);
+		let cursor: string | undefined;
+		do {
+			const page = await getListPage.call(
+				this,
+				API_ENDPOINTS.VIDEO_TEMPLATES,
+				{ fields: 'id,name,description,type,inputs' },
+				cursor,
+			);
+			templates.push(...page.items);
+			cursor = page.nextCursor;
+		} while (cursor);
 	} catch (error) {
-		return { results: [] };
+		return getErrorResult(error);
 	}
 
-	const templates = responseData.items || responseData;
+	const results: INodeListSearchItems[] = templates
+		.filter((item) => !templateType || item.type?.toLowerCase() === templateType)
+		.filter((item) => matchesFilter(filter, item.name, item.description))
+		// Group the templates by type, then alphabetically within each type
+		.sort(
+			(a, b) =>
+				(a.type ?? '').localeCompare(b.type ?? '') ||
+				(a.description ?? '').localeCompare(b.description ?? ''),
+		)
+		.map((item) => {
+			// Inputs without a default value must be filled in, same as in the resource mapper
+			const requiredInputs = (item.inputs ?? [])
+				.filter((input) => isTemplateInputRequired(input))
+				.map((input) => input.label || input.name);
 
-	const results: INodeListSearchItems[] = templates.map(
-		(item: TemplateSearchItem) => ({
-			name: `${item.description}`,
-			value: item.id,
-			description: item.type ? `Type: ${item.type}` : undefined,
-		}),
-	);
+			const descriptionParts = [
+				item.type ? `Type: ${item.type}` : undefined,
+				requiredInputs.length > 0 ? `Required inputs: ${requiredInputs.join(', ')}` : undefined,
+			].filter(Boolean);
+
+			return {
+				name: `${item.description}`,
+				value: item.id,
+				description: descriptionParts.length > 0 ? descriptionParts.join(' | ') : undefined,
+			};
+		});
 
 	return { results };
 }
@@ -0,0 +1,200 @@
+export interface TemplateInput {
+	name: string;
+	label?: string;
+	type?: {
+		t: 'text' | 'image' | 'boolean' | 'enum' | 'array' | 'number' | 'color' | 'date' | 'duration';
+		default?: any;
+		values?: string[];
+		itemType?: {
+			t: 'text' | 'number' | 'boolean' | 'object' | 'image' | 'enum';
+			values?: string[];
+		};
+	};
+}
+
+export interface TemplateData {
+	id: string;
+	name?: string;
+	description?: string;
+	type?: string;
+	inputs?: TemplateInput[];
+}
+
+/**
+ * Returns whether a template input must be filled in. Inputs are optional when their
+ * type has a `default` property (even an empty string), and required otherwise.
+ */
+export function isTemplateInputRequired(input: TemplateInput): boolean {
+	return !input.type || !('default' in input.type);
+}
+
+// Helper function to check whether a value is a publicly reachable http(s) URL
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch (error) {
+		return false;
+	}
+}
+
+// Hex colors (#RGB, #RRGGBB, #RRGGBBAA) and CSS rgb()/rgba()/hsl()/hsla() colors
+const COLOR_REGEX = /^(#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})|(rgb|rgba|hsl|hsla)\([^)]*\))$/i;
+
+// Helper function to convert a number or numeric string to a number, or NaN if it is neither
+function toNumber(value: unknown): number {
+	if (typeof value === 'number') {
+		return value;
+	}
+	if (typeof value === 'string' && value.trim() !== '') {
+		return Number(value.trim());
+	}
+	return NaN;
+}
+
+// Helper function to check one array item against the declared item type
+function matchesItemType(
+	item: unknown,
+	itemType: NonNullable<NonNullable<TemplateInput['type']>['itemType']> | undefined,
+): boolean {
+	switch (itemType?.t) {
+		case 'image':
+			return typeof item === 'string' && isHttpUrl(item);
+		case 'enum':
+			return !itemType.values?.length || itemType.values.includes(String(item));
+		case 'number':
+			return typeof item === 'number' && !isNaN(item);
+		case 'boolean':
+			return typeof item === 'boolean';
+		case 'object':
+			return typeof item === 'object' && item !== null && !Array.isArray(item);
+		case 'text':
+			return typeof item === 'string';
+		default:
+			return true;
+	}
+}
+
+/**
+ * Checks a template input value against its definition and converts it to the type the API
+ * expects (JSON arrays are parsed, numeric and "true"/"false" strings are converted, empty
+ * optional inputs get the template default). Returns the converted value, or an error
+ * message describing what is wrong with the field.
+ */
+export function validateTemplateInput(
+	input: TemplateInput,
+	value: unknown,
+): { value: unknown; error?: string } {
+	const fieldName = input.label || input.name;
+	const isEmpty = value === undefined || value === null || value === '';
+
+	if (isEmpty) {
+		if (isTemplateInputRequired(input)) {
+			return { value, error: `Template input "${fieldName}" is required` };
+		}
+		// Fall back to the template's default for optional inputs left empty
+		return { value: input.type?.default ?? value };
+	}
+
+	switch (input.type?.t) {
+		case 'enum': {
+			const values = input.type.values ?? [];
+			if (values.length > 0 && !values.includes(String(value))) {
+				return {
+					value,
+					error: `Template input "${fieldName}" must be one of ${values.map((v) => `"${v}"`).join(', ')}, but is "${value}"`,
+				};
+			}
+			return { value };
+		}
+		case 'boolean': {
+			if (typeof value === 'boolean') {
+				return { value };
+			}
+			if (value === 'true' || value === 'false') {
+				return { value: value === 'true' };
+			}
+			return { value, error: `Template input "${fieldName}" must be true or false` };
+		}
+		case 'number':
+		case 'duration': {
+			const numberValue = toNumber(value);
+			if (isNaN(numberValue) || (input.type.t === 'duration' && numberValue < 0)) {
+				return {
+					value,
+					error: `Template input "${fieldName}" must be a ${input.type.t === 'duration' ? 'duration in seconds' : 'number'}, but is "${value}"`,
+				};
+			}
+			return { value: numberValue };
+		}
+		case 'color': {
+			if (typeof value !== 'string' || !COLOR_REGEX.test(value.trim())) {
+				return {
+					value,
+					error: `Template input "${fieldName}" must be a color such as "#FF5733" or "rgb(255, 87, 51)", but is "${value}"`,
+				};
+			}
+			return { value: value.trim() };
+		}
+		case 'date': {
+			// Date fields can come from the date picker as strings or from expressions as JS Date or
+			// luxon DateTime objects, which are sent as ISO strings
+			let dateValue: string;
+			if (value instanceof Date) {
+				dateValue = isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+			} else if (typeof (value as { toISO?: unknown }).toISO === 'function') {
+				dateValue = String((value as { toISO: () => string | null }).toISO());
+			} else {
+				dateValue = String(value);
+			}
+			if (isNaN(Date.parse(dateValue))) {
+				return {
+					value,
+					error: `Template input "${fieldName}" must be a date, but is "${dateValue}"`,
+				};
+			}
+			return { value: dateValue };
+		}
+		case 'image': {
+			if (typeof value !== 'string' || !isHttpUrl(value.trim())) {
+				return {
+					value,
+					error: `Template input "${fieldName}" must be a publicly accessible http(s) image URL`,
+				};
+			}
+			return { value: value.trim() };
+		}
+		case 'array': {
+			let arrayValue = value;
+			if (typeof value === 'string') {
+				try {
+					arrayValue = JSON.parse(value.trim());
+				} catch (error) {
+					return {
+						value,
+						error: `Template input "${fieldName}" must be a JSON array, but could not be parsed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+					};
+				}
+			}
+			if (!Array.isArray(arrayValue)) {
+				return { value, error: `Template input "${fieldName}" must be an array` };
+			}
+
+			const itemType = input.type.itemType;
+			const invalidIndex = arrayValue.findIndex((item) => !matchesItemType(item, itemType));
+			if (invalidIndex !== -1) {
+				const expected =
+					itemType?.t === 'enum' && itemType.values?.length
+						? `values out of ${itemType.values.map((v) => `"${v}"`).join(', ')}`
+						: `${itemType?.t} values`;
+				return {
+					value,
+					error: `Template input "${fieldName}" must be an array of ${expected}, but item ${invalidIndex} is ${JSON.stringify(arrayValue[invalidIndex])}`,
+				};
+			}
+			return { value: arrayValue };
+		}
+		default:
+			return { value };
+	}
+}
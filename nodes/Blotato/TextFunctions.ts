@@ -0,0 +1,282 @@
+// How a platform counts the length of a text
+type TextCounting = 'characters' | 'graphemes' | 'twitter';
+
+export interface TextLimit {
+	limit: number;
+	counting: TextCounting;
+}
+
+// Post text (caption / description) limits per platform
+export const PLATFORM_TEXT_LIMITS: Record<string, TextLimit> = {
+	bluesky: { limit: 300, counting: 'graphemes' },
+	facebook: { limit: 63206, counting: 'characters' },
+	instagram: { limit: 2200, counting: 'characters' },
+	linkedin: { limit: 3000, counting: 'characters' },
+	pinterest: { limit: 500, counting: 'characters' },
+	threads: { limit: 500, counting: 'characters' },
+	tiktok: { limit: 2200, counting: 'characters' },
+	twitter: { limit: 280, counting: 'twitter' },
+	youtube: { limit: 5000, counting: 'characters' },
+};
+
+// Title limits per platform
+export const PLATFORM_TITLE_LIMITS: Record<string, TextLimit> = {
+	pinterest: { limit: 100, counting: 'characters' },
+	tiktok: { limit: 90, counting: 'characters' },
+	youtube: { limit: 100, counting: 'characters' },
+};
+
+const ELLIPSIS = '…';
+
+// Twitter counts every URL as a t.co link of this length
+const TWITTER_URL_LENGTH = 23;
+const URL_REGEX = /https?:\/\/[^\s]+/g;
+
+// Code point ranges Twitter counts as weight 1; everything else (CJK, emoji, ...) counts as 2
+const TWITTER_WEIGHT_ONE_RANGES: Array<[number, number]> = [
+	[0, 4351],
+	[8192, 8205],
+	[8208, 8223],
+	[8242, 8247],
+];
+
+interface TextSegment {
+	text: string;
+	weight: number;
+}
+
+// Helper function to split text into user-perceived characters (grapheme clusters)
+function splitGraphemes(text: string): string[] {
+	const Segmenter = (Intl as any).Segmenter;
+	if (Segmenter) {
+		const segmenter = new Segmenter(undefined, { granularity: 'grapheme' });
+		return Array.from(segmenter.segment(text), (segment: { segment: string }) => segment.segment);
+	}
+	// Fall back to code points on runtimes without Intl.Segmenter
+	return Array.from(text);
+}
+
+// Helper function to get the Twitter weight of a single grapheme
+function getTwitterWeight(grapheme: string): number {
+	const codePoint = grapheme.codePointAt(0) ?? 0;
+	const isWeightOne = TWITTER_WEIGHT_ONE_RANGES.some(
+		([start, end]) => codePoint >= start && codePoint <= end,
+	);
+	return isWeightOne ? 1 : 2;
+}
+
+// Helper function to split text into weighted segments according to the counting rules
+function segmentText(text: string, counting: TextCounting): TextSegment[] {
+	if (counting === 'characters') {
+		return Array.from(text, (char) => ({ text: char, weight: 1 }));
+	}
+
+	if (counting === 'graphemes') {
+		return splitGraphemes(text).map((grapheme) => ({ text: grapheme, weight: 1 }));
+	}
+
+	// Twitter: URLs are one segment each, other text is weighted per grapheme
+	const segments: TextSegment[] = [];
+	let lastIndex = 0;
+	for (const match of text.matchAll(URL_REGEX)) {
+		const index = match.index ?? 0;
+		for (const grapheme of splitGraphemes(text.slice(lastIndex, index))) {
+			segments.push({ text: grapheme, weight: getTwitterWeight(grapheme) });
+		}
+		segments.push({ text: match[0], weight: TWITTER_URL_LENGTH });
+		lastIndex = index + match[0].length;
+	}
+	for (const grapheme of splitGraphemes(text.slice(lastIndex))) {
+		segments.push({ text: grapheme, weight: getTwitterWeight(grapheme) });
+	}
+	return segments;
+}
+
+/**
+ * Returns the length of a text as counted by the given limit's rules
+ * (Twitter weighted length, Bluesky graphemes, or plain characters).
+ */
+export function getTextLength(text: string, textLimit: TextLimit): number {
+	return segmentText(text, textLimit.counting).reduce(
+		(length, segment) => length + segment.weight,
+		0,
+	);
+}
+
+/**
+ * Truncates a text so that it fits the given limit, ending with an ellipsis.
+ * URLs are never cut in half on Twitter; they are dropped whole instead.
+ */
+export function truncateText(text: string, textLimit: TextLimit): string {
+	if (getTextLength(text, textLimit) <= textLimit.limit) {
+		return text;
+	}
+
+	const maxLength = textLimit.limit - getTextLength(ELLIPSIS, textLimit);
+	let length = 0;
+	let truncated = '';
+	for (const segment of segmentText(text, textLimit.counting)) {
+		if (length + segment.weight > maxLength) {
+			break;
+		}
+		length += segment.weight;
+		truncated += segment.text;
+	}
+
+	return truncated.trimEnd() + ELLIPSIS;
+}
+
+// Helper function to hard-split a text that has no usable boundaries into chunks that fit
+function splitBySegments(text: string, maxLength: number, textLimit: TextLimit): string[] {
+	const chunks: string[] = [];
+	let current = '';
+	let length = 0;
+	for (const segment of segmentText(text, textLimit.counting)) {
+		if (length + segment.weight > maxLength && current) {
+			chunks.push(current);
+			current = '';
+			length = 0;
+		}
+		current += segment.text;
+		length += segment.weight;
+	}
+	if (current) {
+		chunks.push(current);
+	}
+	return chunks;
+}
+
+// Helper function to greedily pack units into chunks, splitting oversized units further
+function packUnits(
+	units: Array<{ text: string; separator: string }>,
+	maxLength: number,
+	textLimit: TextLimit,
+	splitUnit: (text: string) => string[],
+): string[] {
+	const chunks: string[] = [];
+	let current = '';
+
+	for (const unit of units) {
+		const candidate = current ? current + unit.separator + unit.text : unit.text;
+		if (getTextLength(candidate, textLimit) <= maxLength) {
+			current = candidate;
+			continue;
+		}
+
+		if (current) {
+			chunks.push(current);
+		}
+
+		if (getTextLength(unit.text, textLimit) <= maxLength) {
+			current = unit.text;
+		} else {
+			const parts = splitUnit(unit.text);
+			current = parts.pop() ?? '';
+			chunks.push(...parts);
+		}
+	}
+
+	if (current) {
+		chunks.push(current);
+	}
+	return chunks;
+}
+
+// Abbreviations that end with a period without ending the sentence
+const ABBREVIATIONS = new Set([
+	'approx',
+	'co',
+	'dept',
+	'dr',
+	'e.g',
+	'etc',
+	'fig',
+	'i.e',
+	'inc',
+	'jr',
+	'ltd',
+	'mr',
+	'mrs',
+	'ms',
+	'prof',
+	'sr',
+	'st',
+	'u.s',
+	'vs',
+]);
+
+// Helper function to split a paragraph into sentences. A sentence ends at ".", "!" or "?"
+// followed by whitespace, so decimals, URLs, abbreviations and initials stay in one sentence.
+function splitSentences(paragraph: string): string[] {
+	const sentences: string[] = [];
+	let start = 0;
+	for (const match of paragraph.matchAll(/[.!?]+["')\]]*(?=\s)/g)) {
+		const index = match.index ?? 0;
+		const word = paragraph.slice(start, index).split(/\s/).pop() ?? '';
+		const isAbbreviation =
+			match[0] === '.' && (ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Za-z]$/.test(word));
+		if (isAbbreviation) {
+			continue;
+		}
+
+		sentences.push(paragraph.slice(start, index + match[0].length));
+		start = index + match[0].length;
+	}
+	sentences.push(paragraph.slice(start));
+
+	return sentences;
+}
+
+// Helper function to split a text into chunks of at most maxLength, preferring
+// paragraph, then sentence, then word boundaries
+function splitText(text: string, maxLength: number, textLimit: TextLimit): string[] {
+	const splitWords = (sentence: string) =>
+		packUnits(
+			sentence.split(/\s+/).map((word) => ({ text: word, separator: ' ' })),
+			maxLength,
+			textLimit,
+			(word) => splitBySegments(word, maxLength, textLimit),
+		);
+
+	const units: Array<{ text: string; separator: string }> = [];
+	for (const paragraph of text.split(/\n\s*\n/)) {
+		splitSentences(paragraph)
+			.map((sentence) => sentence.trim())
+			.filter(Boolean)
+			.forEach((sentence, index) => {
+				units.push({ text: sentence, separator: index === 0 ? '\n\n' : ' ' });
+			});
+	}
+
+	return packUnits(units, maxLength, textLimit, splitWords);
+}
+
+/**
+ * Splits a long text into thread posts that each fit the platform limit, breaking on
+ * paragraph and sentence boundaries where possible. With numbering, every post gets a
+ * " 1/n" suffix, and room for it is reserved in each post.
+ */
+export function splitIntoThread(text: string, textLimit: TextLimit, numbering: boolean): string[] {
+	const trimmedText = text.trim();
+	if (getTextLength(trimmedText, textLimit) <= textLimit.limit) {
+		return [trimmedText];
+	}
+
+	if (!numbering) {
+		return splitText(trimmedText, textLimit.limit, textLimit);
+	}
+
+	// Reserve room for the " n/n" suffix, growing it until the post count has enough digits
+	let expectedCount = 9;
+	let chunks: string[] = [];
+	for (;;) {
+		const suffixLength = getTextLength(` ${expectedCount}/${expectedCount}`, textLimit);
+		chunks = splitText(trimmedText, textLimit.limit - suffixLength, textLimit);
+		if (String(chunks.length).length <= String(expectedCount).length) {
+			break;
+		}
+		expectedCount = Number('9'.repeat(String(chunks.length).length));
+	}
+
+	return chunks.map((chunk, index) => `${chunk} ${index + 1}/${chunks.length}`);
+}
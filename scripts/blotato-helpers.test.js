@@ -0,0 +1,482 @@
+/**
+ * Unit tests for the helper functions of the Blotato node. They run against the built
+ * files (npm run build first) with Node's test runner: node --test scripts/
+ */
+const assert = require('assert/strict');
+const path = require('path');
+const { describe, it } = require('node:test');
+
+const DIST = path.join(__dirname, '..', 'dist', 'nodes', 'Blotato');
+const { createRateLimiter, requestWithRetry, uploadBinaryMedia } = require(
+	path.join(DIST, 'GenericFunctions.js'),
+);
+const { PLATFORM_MEDIA_RULES, checkMediaRule, getMediaTypeFromUrl } = require(
+	path.join(DIST, 'MediaFunctions.js'),
+);
+const { isTemplateInputRequired, validateTemplateInput } = require(
+	path.join(DIST, 'TemplateFunctions.js'),
+);
+const { PLATFORM_TEXT_LIMITS, getTextLength, splitIntoThread, truncateText } = require(
+	path.join(DIST, 'TextFunctions.js'),
+);
+
+// Helper function to build an error the way the n8n request helpers throw it
+function createHttpError(status, headers = {}) {
+	const error = new Error(`Request failed with status code ${status}`);
+	error.response = { status, headers };
+	return error;
+}
+
+/**
+ * Minimal n8n execute context. Each request takes the next entry of `responses`, throwing
+ * it if it is an Error. The number of requests sent is available as `context.requests`.
+ */
+function createContext(responses, parameters = {}) {
+	const context = {
+		requests: 0,
+		getNode: () => ({ name: 'Blotato', type: 'blotato' }),
+		getNodeParameter: (name, _itemIndex, fallback) => parameters[name] ?? fallback,
+		logger: { warn() {} },
+		helpers: {
+			async httpRequestWithAuthentication() {
+				const response = responses[context.requests++];
+				if (response instanceof Error) {
+					throw response;
+				}
+				return response;
+			},
+		},
+	};
+	return context;
+}
+
+describe('requestWithRetry', () => {
+	const noWait = { 'retry-after': '0' };
+
+	it('retries rate limited requests until they succeed', async () => {
+		const context = createContext([createHttpError(429, noWait), { ok: true }]);
+		const response = await requestWithRetry.call(context, { method: 'POST', url: '/v2/posts' }, 0);
+
+		assert.deepEqual(response, { ok: true });
+		assert.equal(context.requests, 2);
+	});
+
+	it('throws once the max retries are used up', async () => {
+		const context = createContext(
+			Array.from({ length: 5 }, () => createHttpError(429, noWait)),
+			{ requestOptions: { maxRetries: 2 } },
+		);
+
+		await assert.rejects(requestWithRetry.call(context, { method: 'GET', url: '/v2/posts' }, 0), {
+			message: 'Request failed with status code 429',
+		});
+		assert.equal(context.requests, 3);
+	});
+
+	it('only retries gateway errors for idempotent methods', async () => {
+		const getContext = createContext([createHttpError(503, noWait), { ok: true }]);
+		await requestWithRetry.call(getContext, { method: 'GET', url: '/v2/posts' }, 0);
+		assert.equal(getContext.requests, 2);
+
+		const postContext = createContext([createHttpError(503, noWait), { ok: true }]);
+		await assert.rejects(
+			requestWithRetry.call(postContext, { method: 'POST', url: '/v2/posts' }, 0),
+		);
+		assert.equal(postContext.requests, 1);
+	});
+
+	it('does not retry client errors', async () => {
+		const context = createContext([createHttpError(400), { ok: true }]);
+
+		await assert.rejects(requestWithRetry.call(context, { method: 'GET', url: '/v2/posts' }, 0));
+		assert.equal(context.requests, 1);
+	});
+
+	it('throws when Retry-After asks for longer than the max wait', async () => {
+		const context = createContext([createHttpError(429, { 'retry-after': '120' }), { ok: true }], {
+			requestOptions: { maxRetryWait: 60 },
+		});
+
+		await assert.rejects(requestWithRetry.call(context, { method: 'GET', url: '/v2/posts' }, 0));
+		assert.equal(context.requests, 1);
+	});
+
+	it('caps the exponential backoff at the max wait', async () => {
+		const context = createContext(
+			[createHttpError(429), createHttpError(429), createHttpError(429), { ok: true }],
+			{ requestOptions: { maxRetryWait: 0.05 } },
+		);
+
+		const startedAt = Date.now();
+		await requestWithRetry.call(context, { method: 'GET', url: '/v2/posts' }, 0);
+
+		assert.equal(context.requests, 4);
+		assert.ok(Date.now() - startedAt < 1000, 'backoff waited longer than the max wait');
+	});
+});
+
+describe('createRateLimiter', () => {
+	// Fake clock where sleeping moves the time forward instead of waiting
+	function createFakeClock() {
+		const clock = {
+			time: 0,
+			now: () => clock.time,
+			sleep: async (ms) => {
+				clock.time += ms;
+			},
+		};
+		return clock;
+	}
+
+	it('never sends more than the limit within a 60 second window', async () => {
+		const clock = createFakeClock();
+		const limiter = createRateLimiter({ post: 30 }, clock);
+
+		const sentAt = [];
+		for (let request = 0; request < 100; request++) {
+			await limiter.acquire('post');
+			sentAt.push(clock.time);
+			// Some requests take a while, so the window does not line up with full minutes
+			clock.time += request % 7 === 0 ? 1500 : 10;
+		}
+
+		for (let index = 30; index < sentAt.length; index++) {
+			assert.ok(
+				sentAt[index] - sentAt[index - 30] >= 60000,
+				`requests ${index - 30} and ${index} were sent within one minute`,
+			);
+		}
+	});
+
+	it('sends a full burst without waiting when the window is empty', async () => {
+		const clock = createFakeClock();
+		const limiter = createRateLimiter({ media: 10 }, clock);
+
+		for (let request = 0; request < 10; request++) {
+			await limiter.acquire('media');
+		}
+		assert.equal(clock.time, 0);
+
+		await limiter.acquire('media');
+		assert.equal(clock.time, 60000);
+	});
+
+	it('does not throttle keys without a limit', async () => {
+		const clock = createFakeClock();
+		const limiter = createRateLimiter({ post: 0 }, clock);
+
+		for (let request = 0; request < 100; request++) {
+			await limiter.acquire('post');
+			await limiter.acquire('video');
+		}
+		assert.equal(clock.time, 0);
+	});
+});
+
+describe('getTextLength', () => {
+	const twitter = PLATFORM_TEXT_LIMITS.twitter;
+	const bluesky = PLATFORM_TEXT_LIMITS.bluesky;
+
+	it('counts every URL on Twitter as 23 characters', () => {
+		assert.equal(
+			getTextLength('Read https://example.com/a/very/long/path?with=query', twitter),
+			28,
+		);
+		assert.equal(getTextLength('http://a.co', twitter), 23);
+	});
+
+	it('counts CJK characters and emoji on Twitter as 2', () => {
+		assert.equal(getTextLength('abc', twitter), 3);
+		assert.equal(getTextLength('日本語', twitter), 6);
+		assert.equal(getTextLength('👍', twitter), 2);
+		assert.equal(getTextLength('👨‍👩‍👧', twitter), 2);
+	});
+
+	it('counts graphemes on Bluesky', () => {
+		assert.equal(getTextLength('👨‍👩‍👧', bluesky), 1);
+		assert.equal(getTextLength('e\u0301', bluesky), 1);
+		assert.equal(getTextLength('日本語 🇯🇵', bluesky), 5);
+	});
+
+	it('counts UTF-16 characters elsewhere', () => {
+		assert.equal(getTextLength('héllo', PLATFORM_TEXT_LIMITS.linkedin), 5);
+	});
+});
+
+describe('truncateText', () => {
+	const twitter = PLATFORM_TEXT_LIMITS.twitter;
+
+	it('leaves text within the limit unchanged', () => {
+		const text = 'a'.repeat(280);
+		assert.equal(truncateText(text, twitter), text);
+	});
+
+	it('shortens text to the limit and ends it with an ellipsis', () => {
+		const truncated = truncateText('a'.repeat(300), twitter);
+
+		assert.ok(truncated.endsWith('…'));
+		assert.ok(getTextLength(truncated, twitter) <= 280);
+		assert.ok(getTextLength(truncated, twitter) >= 278);
+	});
+
+	it('drops URLs whole instead of cutting them', () => {
+		const truncated = truncateText(`${'a'.repeat(270)} https://example.com/page`, twitter);
+
+		assert.equal(truncated, `${'a'.repeat(270)}…`);
+	});
+
+	it('does not split graphemes on Bluesky', () => {
+		const truncated = truncateText('👨‍👩‍👧'.repeat(301), PLATFORM_TEXT_LIMITS.bluesky);
+
+		assert.equal(truncated, `${'👨‍👩‍👧'.repeat(299)}…`);
+	});
+});
+
+describe('splitIntoThread', () => {
+	const limit = (length) => ({ limit: length, counting: 'characters' });
+
+	it('keeps text within the limit in one post', () => {
+		assert.deepEqual(splitIntoThread('  Short post.  ', limit(280), true), ['Short post.']);
+	});
+
+	it('splits on sentence boundaries', () => {
+		assert.deepEqual(
+			splitIntoThread('First sentence is here. Second one follows!', limit(30), false),
+			['First sentence is here.', 'Second one follows!'],
+		);
+	});
+
+	it('does not break sentences at abbreviations, initials or decimals', () => {
+		assert.deepEqual(
+			splitIntoThread('First sentence is here. Then I met Dr. Jones at noon.', limit(40), false),
+			['First sentence is here.', 'Then I met Dr. Jones at noon.'],
+		);
+		assert.deepEqual(
+			splitIntoThread(
+				'Mr. J. Smith paid 3.5 dollars, e.g. on example.com today. Done.',
+				limit(60),
+				false,
+			),
+			['Mr. J. Smith paid 3.5 dollars, e.g. on example.com today.', 'Done.'],
+		);
+	});
+
+	it('adds numbering that fits the limit', () => {
+		const posts = splitIntoThread('word '.repeat(100), limit(50), true);
+
+		assert.ok(posts.length > 1);
+		posts.forEach((post, index) => {
+			assert.ok(post.endsWith(` ${index + 1}/${posts.length}`));
+			assert.ok(post.length <= 50);
+		});
+	});
+});
+
+describe('getMediaTypeFromUrl', () => {
+	it('detects images and videos from the file extension', () => {
+		assert.equal(getMediaTypeFromUrl('https://example.com/photo.JPG'), 'image');
+		assert.equal(getMediaTypeFromUrl('https://example.com/clip.mp4?token=abc#t=1'), 'video');
+	});
+
+	it('returns unknown without a recognized extension', () => {
+		assert.equal(getMediaTypeFromUrl('https://drive.google.com/uc?id=123'), 'unknown');
+		assert.equal(getMediaTypeFromUrl('https://cdn.example.com/media/8f2a'), 'unknown');
+	});
+});
+
+describe('checkMediaRule', () => {
+	const media = (...types) =>
+		types.map((type, index) => ({ url: `https://example.com/${index}`, type }));
+
+	it('accepts media within the rules', () => {
+		assert.equal(
+			checkMediaRule(media('image', 'image'), PLATFORM_MEDIA_RULES.twitter, 'Twitter'),
+			undefined,
+		);
+		assert.equal(
+			checkMediaRule(media('video'), PLATFORM_MEDIA_RULES.youtube, 'Youtube'),
+			undefined,
+		);
+	});
+
+	it('rejects too many files', () => {
+		assert.match(
+			checkMediaRule(
+				media('image', 'image', 'image', 'image', 'image'),
+				PLATFORM_MEDIA_RULES.twitter,
+				'Twitter',
+			),
+			/at most 4 media file\(s\).*"https:\/\/example.com\/4"/,
+		);
+	});
+
+	it('rejects types the platform does not accept', () => {
+		assert.match(
+			checkMediaRule(media('image'), PLATFORM_MEDIA_RULES.youtube, 'Youtube'),
+			/only accepts videos/,
+		);
+		assert.match(
+			checkMediaRule(media('video'), PLATFORM_MEDIA_RULES.pinterest, 'Pinterest'),
+			/only accepts images/,
+		);
+	});
+
+	it('rejects mixed images and videos where unsupported', () => {
+		assert.match(
+			checkMediaRule(media('image', 'video'), PLATFORM_MEDIA_RULES.twitter, 'Twitter'),
+			/does not support mixing/,
+		);
+		assert.equal(
+			checkMediaRule(media('image', 'video'), PLATFORM_MEDIA_RULES.instagram, 'Instagram'),
+			undefined,
+		);
+	});
+
+	it('passes media of unknown type', () => {
+		assert.equal(
+			checkMediaRule(media('unknown'), PLATFORM_MEDIA_RULES.youtube, 'Youtube'),
+			undefined,
+		);
+		assert.equal(
+			checkMediaRule(media('video', 'unknown', 'unknown'), PLATFORM_MEDIA_RULES.youtube, 'Youtube'),
+			undefined,
+		);
+	});
+});
+
+describe('uploadBinaryMedia', () => {
+	// Execute context with one binary file in the binary data store
+	function createUploadContext(fileSize) {
+		const context = {
+			streamsOpened: 0,
+			requests: [],
+			getNode: () => ({ name: 'Blotato', type: 'blotato' }),
+			getNodeParameter: (_name, _itemIndex, fallback) => fallback,
+			getCredentials: async () => ({ server: 'https://backend.blotato.com' }),
+			logger: { warn() {} },
+			helpers: {
+				assertBinaryData: () => ({
+					id: 'filesystem:1',
+					mimeType: 'video/mp4',
+					fileName: 'clip.mp4',
+				}),
+				getBinaryMetadata: async () => ({ fileSize }),
+				getBinaryStream: async () => {
+					context.streamsOpened++;
+					return { destroy() {} };
+				},
+				async httpRequestWithAuthentication(_credentialsType, requestOptions) {
+					context.requests.push(requestOptions.method);
+					return {
+						presignedUrl: 'https://upload.example.com',
+						publicUrl: 'https://cdn.example.com/clip.mp4',
+					};
+				},
+				async httpRequest(requestOptions) {
+					context.requests.push(requestOptions.method);
+				},
+			},
+		};
+		return context;
+	}
+	const rateLimiter = { acquire: async () => {} };
+
+	it('rejects files over the size limit without opening a stream', async () => {
+		const context = createUploadContext(61 * 1024 * 1024);
+
+		await assert.rejects(
+			uploadBinaryMedia.call(context, 0, 'data', rateLimiter),
+			/exceeds the 60MB limit/,
+		);
+		assert.equal(context.streamsOpened, 0);
+		assert.deepEqual(context.requests, []);
+	});
+
+	it('streams files within the size limit to the presigned URL', async () => {
+		const context = createUploadContext(1024);
+
+		assert.equal(
+			await uploadBinaryMedia.call(context, 0, 'data', rateLimiter),
+			'https://cdn.example.com/clip.mp4',
+		);
+		assert.equal(context.streamsOpened, 1);
+		assert.deepEqual(context.requests, ['POST', 'PUT']);
+	});
+});
+
+describe('validateTemplateInput', () => {
+	const input = (type, label = 'Field') => ({ name: 'field', label, type });
+
+	it('requires inputs without a default and falls back to the default otherwise', () => {
+		assert.equal(isTemplateInputRequired(input({ t: 'text' })), true);
+		assert.equal(isTemplateInputRequired(input({ t: 'text', default: '' })), false);
+
+		assert.equal(
+			validateTemplateInput(input({ t: 'text' }), '').error,
+			'Template input "Field" is required',
+		);
+		assert.deepEqual(validateTemplateInput(input({ t: 'number', default: 5 }), ''), { value: 5 });
+	});
+
+	it('checks enum values', () => {
+		const voice = input({ t: 'enum', values: ['male', 'female'] }, 'Voice');
+
+		assert.deepEqual(validateTemplateInput(voice, 'female'), { value: 'female' });
+		assert.equal(
+			validateTemplateInput(voice, 'robot').error,
+			'Template input "Voice" must be one of "male", "female", but is "robot"',
+		);
+	});
+
+	it('converts numeric and boolean strings', () => {
+		assert.deepEqual(validateTemplateInput(input({ t: 'number' }), ' 42 '), { value: 42 });
+		assert.deepEqual(validateTemplateInput(input({ t: 'boolean' }), 'false'), { value: false });
+		assert.match(validateTemplateInput(input({ t: 'number' }), 'many').error, /must be a number/);
+		assert.match(validateTemplateInput(input({ t: 'duration' }), -1).error, /duration in seconds/);
+		assert.match(
+			validateTemplateInput(input({ t: 'boolean' }), 'yes').error,
+			/must be true or false/,
+		);
+	});
+
+	it('checks colors and image URLs', () => {
+		assert.deepEqual(validateTemplateInput(input({ t: 'color' }), '#FF5733'), { value: '#FF5733' });
+		assert.deepEqual(validateTemplateInput(input({ t: 'color' }), 'rgb(255, 87, 51)'), {
+			value: 'rgb(255, 87, 51)',
+		});
+		assert.match(validateTemplateInput(input({ t: 'color' }), 'red').error, /must be a color/);
+		assert.match(
+			validateTemplateInput(input({ t: 'image' }), 'ftp://example.com/a.png').error,
+			/http\(s\) image URL/,
+		);
+	});
+
+	it('sends dates as ISO strings', () => {
+		const date = new Date('2026-01-02T03:04:05.000Z');
+		const luxonLike = { toISO: () => '2026-01-02T03:04:05.000+00:00' };
+
+		assert.deepEqual(validateTemplateInput(input({ t: 'date' }), date), {
+			value: '2026-01-02T03:04:05.000Z',
+		});
+		assert.deepEqual(validateTemplateInput(input({ t: 'date' }), luxonLike), {
+			value: '2026-01-02T03:04:05.000+00:00',
+		});
+		assert.match(validateTemplateInput(input({ t: 'date' }), 'someday').error, /must be a date/);
+	});
+
+	it('parses JSON arrays and checks their item types', () => {
+		const scenes = input({ t: 'array', itemType: { t: 'image' } }, 'Scenes');
+
+		assert.deepEqual(validateTemplateInput(scenes, '["https://example.com/a.png"]'), {
+			value: ['https://example.com/a.png'],
+		});
+		assert.deepEqual(validateTemplateInput(scenes, ['https://example.com/a.png']), {
+			value: ['https://example.com/a.png'],
+		});
+		assert.match(validateTemplateInput(scenes, '[oops').error, /must be a JSON array/);
+		assert.equal(
+			validateTemplateInput(scenes, ['https://example.com/a.png', 'not a url']).error,
+			'Template input "Scenes" must be an array of image values, but item 1 is "not a url"',
+		);
+	});
+});
@@ -0,0 +1,329 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Blotato webhook API, to test the Blotato Webhook Trigger without a
+ * Blotato account. It implements the /v2/webhooks endpoints the trigger registers itself with,
+ * and delivers events signed with the same secret as the credential's Webhook Signing Secret.
+ *
+ * Usage:
+ *   node scripts/blotato-stand-in.js serve [port]
+ *     Start the stand-in API (default port 5679). Set the credential's Blotato Server to
+ *     http://localhost:<port>, then POST {"event": "post.published", "data": {...}} to
+ *     /stand-in/events to deliver a signed event to all webhooks registered for it.
+ *   node scripts/blotato-stand-in.js send <webhookUrl> <event> [platform]
+ *     Send one signed event straight to a webhook URL, e.g. the n8n test URL.
+ *   node scripts/blotato-stand-in.js check
+ *     Run the built trigger (npm run build first) against the stand-in and check that signed
+ *     payloads start the workflow while unsigned or wrongly signed payloads get a 401.
+ *
+ * The signing secret is read from BLOTATO_WEBHOOK_SECRET and defaults to "stand-in-secret".
+ */
+const { createHmac, randomUUID } = require('crypto');
+const http = require('http');
+const path = require('path');
+
+const SECRET = process.env.BLOTATO_WEBHOOK_SECRET || 'stand-in-secret';
+const SIGNATURE_HEADER = 'x-blotato-signature';
+
+// Helper function to read a request body as a buffer
+function readBody(req) {
+	return new Promise((resolve, reject) => {
+		const chunks = [];
+		req.on('data', (chunk) => chunks.push(chunk));
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+		req.on('error', reject);
+	});
+}
+
+// Helper function to send a JSON response
+function sendJson(res, statusCode, body) {
+	res.writeHead(statusCode, { 'content-type': 'application/json' });
+	res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// Helper function to build an event payload the way Blotato sends it
+function createEvent(event, data = {}) {
+	return { id: randomUUID(), event, createdAt: new Date().toISOString(), data };
+}
+
+/**
+ * Delivers an event to a webhook URL. The body is signed with `secret` unless it is undefined,
+ * so unsigned deliveries can be tested too. Resolves with the response status code.
+ */
+async function deliverEvent(webhookUrl, payload, secret) {
+	const rawBody = JSON.stringify(payload);
+	const headers = { 'content-type': 'application/json' };
+	if (secret !== undefined) {
+		headers[SIGNATURE_HEADER] =
+			`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+	}
+
+	const response = await fetch(webhookUrl, { method: 'POST', headers, body: rawBody });
+	return response.status;
+}
+
+// Stand-in for the Blotato API, keeping registered webhooks in memory
+function createStandInServer() {
+	const webhooks = new Map();
+
+	const server = http.createServer(async (req, res) => {
+		const url = new URL(req.url, 'http://localhost');
+		const body = await readBody(req);
+		const json = body.length > 0 ? JSON.parse(body.toString()) : {};
+
+		if (url.pathname === '/v2/users/me' && req.method === 'GET') {
+			return sendJson(res, 200, { id: 'stand-in-user' });
+		}
+
+		if (url.pathname === '/v2/webhooks' && req.method === 'GET') {
+			return sendJson(res, 200, { items: Array.from(webhooks.values()) });
+		}
+
+		if (url.pathname === '/v2/webhooks' && req.method === 'POST') {
+			const webhook = { id: randomUUID(), url: json.url, events: json.events ?? [] };
+			webhooks.set(webhook.id, webhook);
+			console.log(
+				`Registered webhook ${webhook.id} for ${webhook.events.join(', ')}: ${webhook.url}`,
+			);
+			return sendJson(res, 201, { item: webhook });
+		}
+
+		const webhookMatch = url.pathname.match(/^\/v2\/webhooks\/([^/]+)$/);
+		if (webhookMatch && req.method === 'DELETE') {
+			webhooks.delete(webhookMatch[1]);
+			console.log(`Deleted webhook ${webhookMatch[1]}`);
+			return sendJson(res, 204);
+		}
+
+		if (url.pathname === '/stand-in/events' && req.method === 'POST') {
+			const payload = createEvent(json.event, json.data);
+			const deliveries = [];
+			for (const webhook of webhooks.values()) {
+				if (webhook.events.includes(payload.event)) {
+					deliveries.push({
+						url: webhook.url,
+						status: await deliverEvent(webhook.url, payload, SECRET),
+					});
+				}
+			}
+			return sendJson(res, 200, { payload, deliveries });
+		}
+
+		return sendJson(res, 404, { message: `Not found: ${req.method} ${url.pathname}` });
+	});
+
+	return { server, webhooks };
+}
+
+// Helper function to start a server on a port (0 picks a free port) and return its base URL
+function listen(server, port) {
+	return new Promise((resolve) => {
+		server.listen(port, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`));
+	});
+}
+
+// Minimal n8n context shared by the hook and webhook functions of the trigger
+function createContext(serverUrl, parameters, credentials, staticData) {
+	return {
+		getNode: () => ({ name: 'Blotato Webhook Trigger', type: 'blotatoWebhookTrigger' }),
+		getCredentials: async () => ({ server: serverUrl, apiKey: 'stand-in-key', ...credentials }),
+		getNodeParameter: (name, fallback) => parameters[name] ?? fallback,
+		getWorkflowStaticData: () => staticData,
+		helpers: {
+			async httpRequestWithAuthentication(_credentialsType, requestOptions) {
+				const response = await fetch(requestOptions.url, {
+					method: requestOptions.method,
+					headers: { 'content-type': 'application/json' },
+					body: requestOptions.body ? JSON.stringify(requestOptions.body) : undefined,
+				});
+				if (!response.ok) {
+					throw new Error(`Request failed with status code ${response.status}`);
+				}
+				return response.status === 204 ? undefined : await response.json();
+			},
+			returnJsonArray: (data) => (Array.isArray(data) ? data : [data]).map((json) => ({ json })),
+		},
+	};
+}
+
+// Serves the trigger's webhook() like n8n does and records the workflow data it returns
+function createWebhookServer(trigger, context) {
+	const triggered = [];
+
+	const server = http.createServer(async (req, res) => {
+		const rawBody = await readBody(req);
+		let ended = false;
+		const responseObject = {
+			status(statusCode) {
+				res.statusCode = statusCode;
+				return responseObject;
+			},
+			json(body) {
+				res.setHeader('content-type', 'application/json');
+				res.write(JSON.stringify(body));
+				return responseObject;
+			},
+			end() {
+				ended = true;
+				res.end();
+			},
+		};
+
+		const result = await trigger.webhook.call({
+			...context,
+			getHeaderData: () => req.headers,
+			getRequestObject: () => ({ rawBody }),
+			getResponseObject: () => responseObject,
+			getBodyData: () => JSON.parse(rawBody.toString()),
+		});
+
+		if (result.workflowData) {
+			triggered.push(...result.workflowData[0]);
+		}
+		if (!ended) {
+			res.statusCode = 200;
+			res.end();
+		}
+	});
+
+	return { server, triggered };
+}
+
+async function check() {
+	let BlotatoWebhookTrigger;
+	try {
+		({ BlotatoWebhookTrigger } = require(
+			path.join(__dirname, '..', 'dist', 'nodes', 'Blotato', 'BlotatoWebhookTrigger.node.js'),
+		));
+	} catch (error) {
+		console.error('Could not load the built trigger, run "npm run build" first');
+		throw error;
+	}
+
+	const trigger = new BlotatoWebhookTrigger();
+	const standIn = createStandInServer();
+	const serverUrl = await listen(standIn.server, 0);
+
+	const parameters = { events: ['post.published'], options: {} };
+	const staticData = {};
+	const context = createContext(serverUrl, parameters, { webhookSecret: SECRET }, staticData);
+	const webhook = createWebhookServer(trigger, context);
+	const webhookUrl = `${await listen(webhook.server, 0)}/webhook`;
+	const hookContext = { ...context, getNodeWebhookUrl: () => webhookUrl };
+	const hooks = trigger.webhookMethods.default;
+
+	const failures = [];
+	const expect = (name, actual, expected) => {
+		const passed = JSON.stringify(actual) === JSON.stringify(expected);
+		console.log(`${passed ? 'ok  ' : 'FAIL'} ${name}`);
+		if (!passed) {
+			failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+		}
+	};
+
+	try {
+		// Registration
+		expect('no webhook registered yet', await hooks.checkExists.call(hookContext), false);
+		expect('webhook is registered', await hooks.create.call(hookContext), true);
+		expect('registered webhook is found', await hooks.checkExists.call(hookContext), true);
+
+		// Signed and unsigned payloads
+		const payload = createEvent('post.published', { platform: 'twitter', postSubmissionId: 'p1' });
+		expect('signed payload is accepted', await deliverEvent(webhookUrl, payload, SECRET), 200);
+		expect('signed payload starts the workflow', webhook.triggered.length, 1);
+		expect('unsigned payload is rejected', await deliverEvent(webhookUrl, payload, undefined), 401);
+		expect(
+			'payload signed with another secret is rejected',
+			await deliverEvent(webhookUrl, payload, 'wrong'),
+			401,
+		);
+		expect('rejected payloads do not start the workflow', webhook.triggered.length, 1);
+
+		const otherEvent = createEvent('visual.completed', { id: 'v1' });
+		expect(
+			'signed payload for another event is acknowledged',
+			await deliverEvent(webhookUrl, otherEvent, SECRET),
+			200,
+		);
+		expect('payload for another event does not start the workflow', webhook.triggered.length, 1);
+
+		// Without a secret every payload is rejected
+		const credentialsWithoutSecret = createContext(
+			serverUrl,
+			parameters,
+			{ webhookSecret: '' },
+			staticData,
+		);
+		const unsecuredWebhook = createWebhookServer(trigger, credentialsWithoutSecret);
+		const unsecuredUrl = `${await listen(unsecuredWebhook.server, 0)}/webhook`;
+		expect(
+			'signed payload is rejected without a secret',
+			await deliverEvent(unsecuredUrl, payload, SECRET),
+			401,
+		);
+		expect(
+			'unsigned payload is rejected without a secret',
+			await deliverEvent(unsecuredUrl, payload, undefined),
+			401,
+		);
+		unsecuredWebhook.server.close();
+
+		// Changing the events replaces the registration
+		parameters.events = ['post.published', 'post.failed'];
+		expect(
+			'registration for other events is replaced',
+			await hooks.checkExists.call(hookContext),
+			false,
+		);
+		expect('outdated registration is deleted', standIn.webhooks.size, 0);
+		await hooks.create.call(hookContext);
+		expect(
+			'new registration has the selected events',
+			Array.from(standIn.webhooks.values())[0].events,
+			parameters.events,
+		);
+
+		expect('webhook is deleted', await hooks.delete.call(hookContext), true);
+		expect('no webhooks left', standIn.webhooks.size, 0);
+	} finally {
+		standIn.server.close();
+		webhook.server.close();
+	}
+
+	if (failures.length > 0) {
+		console.error(`\n${failures.length} check(s) failed:\n${failures.join('\n')}`);
+		process.exitCode = 1;
+	}
+}
+
+async function main() {
+	const [command, ...args] = process.argv.slice(2);
+
+	if (command === 'serve') {
+		const { server } = createStandInServer();
+		const serverUrl = await listen(server, Number(args[0] ?? 5679));
+		console.log(
+			`Blotato stand-in listening on ${serverUrl}, signing events with BLOTATO_WEBHOOK_SECRET`,
+		);
+	} else if (command === 'send') {
+		const [webhookUrl, event, platform] = args;
+		if (!webhookUrl || !event) {
+			throw new Error('Usage: send <webhookUrl> <event> [platform]');
+		}
+		const payload = createEvent(event, platform ? { platform } : {});
+		console.log(
+			`${event} delivered with status ${await deliverEvent(webhookUrl, payload, SECRET)}`,
+		);
+	} else if (command === 'check') {
+		await check();
+	} else {
+		console.error(
+			'Usage: node scripts/blotato-stand-in.js <serve [port] | send <webhookUrl> <event> [platform] | check>',
+		);
+		process.exitCode = 1;
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});